@@ -63,6 +63,7 @@ if (!process.env.PLATFORM) {
         runtimeVersion: "25.08",
         icon: `${ASSET_DIR}/icon.png`,
         categories: ["Network"],
+        mimeType: ["x-scheme-handler/stoat-chat"],
         modules: [
           // use the latest zypak -- Electron sandboxing for Flatpak
           {
@@ -120,6 +121,7 @@ if (!process.env.PLATFORM) {
         description: STRINGS.description,
         productDescription: STRINGS.description,
         categories: ["Network"],
+        mimeType: ["x-scheme-handler/stoat-chat"],
         icon: `${ASSET_DIR}/icon.png`,
       },
     }),
@@ -134,6 +136,8 @@ const config: ForgeConfig = {
     name: STRINGS.name,
     executableName: STRINGS.execName,
     icon: `${ASSET_DIR}/icon`,
+    // register stoat-chat:// links on macOS
+    protocols: [{ name: STRINGS.name, schemes: ["stoat-chat"] }],
     extraResource: [
       "web-dist",
     ],
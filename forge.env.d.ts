@@ -1 +1,14 @@
 /// <reference types="@electron-forge/plugin-vite/forge-vite-env" />
+
+/**
+ * Hashes of the web-dist bundle taken at build time, null if none was present
+ */
+declare const WEB_DIST_MANIFEST:
+  | import("./src/native/webManifest").WebManifest
+  | null;
+
+/**
+ * PEM public key web client update manifests must be signed with,
+ * null if updates are disabled
+ */
+declare const WEB_UPDATE_PUBLIC_KEY: string | null;
@@ -2,28 +2,223 @@ declare type DesktopConfig = {
   firstLaunch: boolean;
   customFrame: boolean;
   minimiseToTray: boolean;
+  startMinimisedToTray: boolean;
   spellchecker: boolean;
+  spellcheckerLanguages: string[];
   hardwareAcceleration: boolean;
   discordRpc: boolean;
   pushToTalk: boolean;
   pushToTalkKeybind: string;
   pushToTalkMode: "hold" | "toggle";
   pushToTalkReleaseDelay: number;
-  windowState: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    isMaximised: boolean;
+  server: string;
+  instances: DesktopInstance[];
+  webUpdateUrl: string;
+  confirmExternalLinks: boolean;
+  /**
+   * Domains whose links open without confirmation, including subdomains
+   */
+  trustedDomains: string[];
+  /**
+   * Where downloads are saved, empty for the system downloads folder
+   */
+  downloadDirectory: string;
+  askDownloadLocation: boolean;
+  recentDownloads: DesktopDownload[];
+  /**
+   * ID of the screen or window shared last, selected first in the picker
+   */
+  screenShareSource: string;
+  screenShareAudio: boolean;
+  /**
+   * Saved answers to permission requests by origin, then by permission
+   */
+  permissions: Record<string, Record<string, boolean>>;
+  shortcuts: Partial<Record<ShortcutAction, string[]>>;
+  zoomLevels: Record<string, number>;
+  profiles: DesktopProfile[];
+  activeProfile: string;
+  windowState: DesktopWindowState;
+  windowStates: Record<string, DesktopWindowState>;
+  popoutWindowStates: Record<string, DesktopWindowState>;
+};
+
+declare type DesktopInstance = {
+  name: string;
+  /**
+   * URL of the instance's web client
+   */
+  url: string;
+  apiUrl: string;
+  /**
+   * Origins the client may navigate to, from the instance configuration
+   */
+  origins: string[];
+};
+
+declare type DesktopDownload = {
+  id: string;
+  filename: string;
+  /**
+   * Where the file is saved, empty until a location is chosen
+   */
+  path: string;
+  url: string;
+  state: "progressing" | "completed" | "cancelled" | "interrupted";
+  receivedBytes: number;
+  /**
+   * Size of the file, 0 if unknown
+   */
+  totalBytes: number;
+  startTime: number;
+};
+
+declare type DesktopPermissionGrant = {
+  origin: string;
+  /**
+   * Electron permission name, with `media` split into `camera` and `microphone`
+   */
+  permission: string;
+  granted: boolean;
+};
+
+declare type DesktopScreenShareSource = {
+  /**
+   * `desktopCapturer` source ID
+   */
+  id: string;
+  name: string;
+  type: "screen" | "window";
+  /**
+   * Preview as a data URL
+   */
+  thumbnail: string;
+  /**
+   * Icon of the window's application as a data URL, if known
+   */
+  icon: string | null;
+};
+
+declare type DesktopWindowState = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  isMaximised: boolean;
+};
+
+declare type ShortcutAction =
+  | "zoomIn"
+  | "zoomOut"
+  | "zoomReset"
+  | "find"
+  | "findPrevious"
+  | "findNext"
+  | "reload"
+  | "devTools"
+  | "fullscreen"
+  | "hideToTray"
+  | "quit";
+
+declare type DesktopFindOptions = {
+  forward?: boolean;
+  matchCase?: boolean;
+};
+
+declare type DesktopFindResult = {
+  matches: number;
+  activeMatch: number;
+  finalUpdate: boolean;
+};
+
+declare type DesktopDeepLink = {
+  /**
+   * Link as it was opened
+   */
+  url: string;
+  /**
+   * Client route to navigate to, including any query and hash
+   */
+  path: string;
+};
+
+declare type DesktopShortcut = {
+  action: ShortcutAction;
+  label: string;
+  defaults: string[];
+  bindings: string[];
+};
+
+declare type DesktopProfile = {
+  id: string;
+  name: string;
+};
+
+declare type ConfigChange<K extends keyof DesktopConfig = keyof DesktopConfig> =
+  {
+    key: K;
+    oldValue: DesktopConfig[K];
+    newValue: DesktopConfig[K];
   };
+
+declare type ConfigSetResult = {
+  /**
+   * Validation errors by key, nothing is applied if any are present
+   */
+  errors: Record<string, string[]>;
+  /**
+   * Whether each side effect triggered by the update succeeded
+   */
+  effects: {
+    spellchecker?: boolean;
+    discordRpc?: boolean;
+    pushToTalk?: boolean;
+  };
+};
+
+declare type SettingsImportResult = {
+  /**
+   * Keys that were written to the configuration
+   */
+  applied: (keyof DesktopConfig)[];
+  /**
+   * Keys that are unknown, specific to the exporting machine, locked by policy
+   * or only settable by policy and on the command line
+   */
+  skipped: string[];
+  /**
+   * Validation errors by key, nothing is applied if any are present
+   */
+  errors: Record<string, string[]>;
 };
 
 declare interface Window {
   desktopConfig: {
-    get: () => DesktopConfig;
-    set: (config: DesktopConfig) => void;
+    get: () => DesktopConfig & {
+      /**
+       * Keys locked by the administrator policy
+       */
+      lockedKeys: (keyof DesktopConfig | "autostart")[];
+    };
+    set: (config: Partial<DesktopConfig>) => Promise<ConfigSetResult>;
+    onChange: <K extends keyof DesktopConfig>(
+      key: K,
+      callback: (
+        newValue: DesktopConfig[K],
+        oldValue: DesktopConfig[K],
+      ) => void,
+    ) => void;
+    offChange: <K extends keyof DesktopConfig>(
+      key: K,
+      callback: (
+        newValue: DesktopConfig[K],
+        oldValue: DesktopConfig[K],
+      ) => void,
+    ) => void;
     getAutostart: () => Promise<boolean>;
     setAutostart: (value: boolean) => Promise<boolean>;
+    exportSettings: () => Promise<string>;
+    importSettings: (json: string) => Promise<SettingsImportResult>;
   };
   native: {
     versions: {
@@ -36,6 +231,175 @@ declare interface Window {
     maximise: () => void;
     close: () => void;
     setBadgeCount: (count: number) => void;
+    /**
+     * Open part of the client in its own window, or focus it if already open
+     * @param key Identifies the window and its saved geometry
+     * @param path Path relative to the client URL
+     */
+    openWindow: (key: string, path: string) => Promise<void>;
+    /**
+     * List every shortcut action with its default and current bindings
+     */
+    getShortcuts: () => Promise<DesktopShortcut[]>;
+    /**
+     * Get the zoom level saved for the current server
+     */
+    getZoom: () => Promise<number>;
+    /**
+     * Change and save the zoom level for the current server
+     * @param level Zoom level, 0 is 100% and each step scales by 20%
+     * @returns Zoom level that was applied after clamping
+     */
+    setZoom: (level: number) => Promise<number>;
+    /**
+     * Search the page, repeating the last search moves to the next match
+     * @param text Text to search for, stops searching if empty
+     * @param options Search direction and case sensitivity
+     */
+    findInPage: (text: string, options?: DesktopFindOptions) => void;
+    /**
+     * Stop searching and clear the highlighted matches
+     * @param action What to do with the active match
+     */
+    stopFindInPage: (
+      action?: "clearSelection" | "keepSelection" | "activateSelection",
+    ) => void;
+    /**
+     * Subscribe to the find shortcut, the client should open its find bar
+     */
+    onFindRequested: (callback: () => void) => void;
+    offFindRequested: (callback: () => void) => void;
+    /**
+     * Subscribe to match counts as the search progresses
+     */
+    onFindResult: (callback: (result: DesktopFindResult) => void) => void;
+    offFindResult: (callback: (result: DesktopFindResult) => void) => void;
+    /**
+     * Subscribe to links the client should navigate to, links opened
+     * before the first subscription are delivered to it
+     */
+    onDeepLink: (callback: (link: DesktopDeepLink) => void) => void;
+    offDeepLink: (callback: (link: DesktopDeepLink) => void) => void;
+    /**
+     * List downloads in progress followed by recent ones, newest first
+     */
+    getDownloads: () => Promise<DesktopDownload[]>;
+    /**
+     * Subscribe to progress and completion of downloads
+     */
+    onDownloadUpdated: (callback: (download: DesktopDownload) => void) => void;
+    offDownloadUpdated: (callback: (download: DesktopDownload) => void) => void;
+    /**
+     * Cancel a download in progress
+     * @param id Download ID
+     */
+    cancelDownload: (id: string) => Promise<void>;
+    /**
+     * Open a finished download with its default application,
+     * once the user confirms it
+     * @param id Download ID
+     */
+    openDownload: (id: string) => Promise<void>;
+    /**
+     * Show a finished download in the file manager
+     * @param id Download ID
+     */
+    showDownloadInFolder: (id: string) => Promise<void>;
+    /**
+     * Forget finished downloads, the files are kept
+     */
+    clearDownloads: () => Promise<void>;
+    /**
+     * List the saved answers to permission requests
+     */
+    getPermissions: () => Promise<DesktopPermissionGrant[]>;
+    /**
+     * Forget saved answers so the origin is asked again
+     * @param origin Origin
+     * @param permission Permission, forgets all of the origin's if omitted
+     */
+    revokePermission: (origin: string, permission?: string) => Promise<void>;
+    /**
+     * List the screens and windows which can be shared
+     */
+    getScreenShareSources: () => Promise<DesktopScreenShareSource[]>;
+    /**
+     * Choose what the next `getDisplayMedia` call shares instead of
+     * showing the native picker, it expires after 10 seconds
+     * @param id Source ID, null cancels the request
+     * @param audio Whether to share system audio, only supported on Windows
+     */
+    selectScreenShareSource: (
+      id: string | null,
+      audio?: boolean,
+    ) => Promise<void>;
+    /**
+     * List language codes usable in `spellcheckerLanguages`,
+     * empty on macOS where the system spellchecker is used
+     */
+    getSpellcheckerLanguages: () => Promise<string[]>;
+    /**
+     * List words added to the custom dictionary
+     */
+    getDictionaryWords: () => Promise<string[]>;
+    /**
+     * Remove a word from the custom dictionary
+     * @param word Word to remove
+     * @returns Whether the word was removed
+     */
+    removeDictionaryWord: (word: string) => Promise<boolean>;
+  };
+  instances: {
+    /**
+     * List saved self-hosted instances and the client URL in use,
+     * an empty URL is the official instance
+     */
+    list: () => Promise<{
+      instances: DesktopInstance[];
+      server: string;
+    }>;
+    /**
+     * Save a self-hosted instance after checking its configuration
+     * @param url URL of the instance's client or API
+     * @param name Display name, defaults to the host
+     */
+    add: (url: string, name?: string) => Promise<DesktopInstance>;
+    remove: (url: string) => Promise<void>;
+    /**
+     * Load another instance's client, an empty URL selects the official instance
+     */
+    select: (url: string) => Promise<void>;
+  };
+  profiles: {
+    list: () => Promise<{
+      profiles: DesktopProfile[];
+      activeProfile: string;
+    }>;
+    add: (name: string) => Promise<DesktopProfile>;
+    rename: (id: string, name: string) => Promise<void>;
+    remove: (id: string) => Promise<void>;
+    switch: (id: string) => void;
+  };
+  /**
+   * Actions of the page shown when the client crashes or fails to load
+   */
+  recovery: {
+    /**
+     * Load the client again
+     */
+    reload: () => void;
+    /**
+     * Load the local web assets instead of the unreachable remote client
+     */
+    loadLocalClient: () => void;
+    /**
+     * Open the folder with the crash log
+     */
+    openLogs: () => void;
+    /**
+     * Restart the app with hardware acceleration off for one session
+     */
+    restartInSafeMode: () => void;
   };
   pushToTalk: {
     onStateChange: (callback: (state: { active: boolean }) => void) => void;
@@ -1,13 +1,30 @@
 import { IUpdateInfo, updateElectronApp } from "update-electron-app";
 
-import { BrowserWindow, app, shell, Notification } from "electron";
+import { BrowserWindow, app, Notification } from "electron";
 import started from "electron-squirrel-startup";
 
-import { autoLaunch } from "./native/autoLaunch";
+import { autoLaunch, enforceAutostartPolicy } from "./native/autoLaunch";
 import { config } from "./native/config";
+import { SAFE_MODE_SWITCH } from "./native/crashRecovery";
+import {
+  findDeepLink,
+  handleDeepLink,
+  initDeepLinks,
+  openDeepLink,
+  parseClientLink,
+  registerDeepLinkScheme,
+} from "./native/deepLinks";
 import { initDiscordRpc } from "./native/discordRpc";
+import { openExternalLink } from "./native/externalLinks";
+import {
+  isAllowedOrigin,
+  refreshInstanceOrigins,
+  showInstancePicker,
+} from "./native/instances";
+import { isLocked } from "./native/policy";
 import { cleanupPushToTalk, initPushToTalk } from "./native/pushToTalk";
 import { initTray } from "./native/tray";
+import { startWebUpdates } from "./native/webUpdates";
 import {
   BUILD_URL,
   createMainWindow,
@@ -22,8 +39,11 @@ if (started) {
   app.quit();
 }
 
-// disable hw-accel if so requested
-if (!config.hardwareAcceleration) {
+// disable hw-accel if so requested, or for one session after repeated crashes
+if (
+  !config.hardwareAcceleration ||
+  app.commandLine.hasSwitch(SAFE_MODE_SWITCH)
+) {
   app.disableHardwareAcceleration();
 }
 
@@ -40,40 +60,81 @@ const onNotifyUser = (_info: IUpdateInfo) => {
   notification.show()
 }
 
+/**
+ * Create the main window and application contexts
+ */
+function openApp() {
+  createMainWindow();
+  config.watchFile();
+  initTray();
+  initDiscordRpc();
+  initPushToTalk();
+  startWebUpdates();
+  refreshInstanceOrigins();
+  initDeepLinks();
+
+  // Windows specific fix for notifications
+  if (process.platform === "win32") {
+    app.setAppUserModelId("chat.stoat.notifications");
+  }
+}
+
 if (acquiredLock) {
   // start auto update logic
   updateElectronApp({onNotifyUser})
 
-  app.on("ready", () => {
-    // initialise build URL from command line
-    initBuildUrl();
+  app.on("ready", async () => {
+    // initialise build URL from command line, verifying local web assets
+    await initBuildUrl();
 
-    // enable auto start on Windows and MacOS
-    if (config.firstLaunch) {
+    // open stoat-chat:// links with this app
+    registerDeepLinkScheme();
+
+    // enforce auto start policy, otherwise enable it on Windows and MacOS
+    if (isLocked("autostart")) {
+      enforceAutostartPolicy();
+    } else if (config.firstLaunch) {
       if (process.platform === "win32" || process.platform === "darwin") {
         autoLaunch.enable();
       }
     }
 
-    // create window and application contexts
-    createMainWindow();
-    initTray();
-    initDiscordRpc();
-    initPushToTalk();
-
-    // Windows specific fix for notifications
-    if (process.platform === "win32") {
-      app.setAppUserModelId("chat.stoat.notifications");
+    // let new users choose an instance before the client loads,
+    // unless started in the background where nobody would see it
+    if (
+      config.firstLaunch &&
+      !app.commandLine.hasSwitch("force-server") &&
+      !app.commandLine.hasSwitch("hidden")
+    ) {
+      showInstancePicker(openApp);
+    } else {
+      openApp();
     }
   });
 
   // focus the window if we try to launch again
-  app.on("second-instance", () => {
+  app.on("second-instance", (_, argv) => {
+    // links opened on Windows and Linux launch another instance
+    const link = findDeepLink(argv);
+    if (link) {
+      handleDeepLink(link);
+      return;
+    }
+
+    // still choosing an instance
+    if (!mainWindow) return;
+
     mainWindow.show();
     mainWindow.restore();
     mainWindow.focus();
   });
 
+  // links opened on macOS are sent to the running app
+  app.on("open-url", (event, url) => {
+    event.preventDefault();
+    handleDeepLink(url);
+  });
+
   // macOS specific behaviour to keep app active in dock:
   // (irrespective of the minimise-to-tray option)
 
@@ -91,6 +152,9 @@ if (acquiredLock) {
   });
 
   app.on("activate", () => {
+    // still verifying the web assets or choosing an instance
+    if (!mainWindow) return;
+
     if (BrowserWindow.getAllWindows().length === 0) {
       createMainWindow();
     } else {
@@ -101,17 +165,6 @@ if (acquiredLock) {
 
   // ensure URLs launch in external context
   app.on("web-contents-created", (_, contents) => {
-    // Allow navigation to Stoat/Revolt API and CDN domains
-    const allowedOrigins = [
-      "https://stoat.chat",
-      "https://beta.revolt.chat",
-      "https://revolt.chat",
-      "https://api.revolt.chat",
-      "https://cdn.stoatusercontent.com",
-      "https://autumn.stoatusercontent.com",
-      "https://cdn.revolt.chat",
-    ];
-
     // prevent navigation out of build URL origin (but allow API/CDN)
     contents.on("will-navigate", (event, navigationUrl) => {
       const url = new URL(navigationUrl);
@@ -126,8 +179,8 @@ if (acquiredLock) {
         return;
       }
 
-      // Allow known API/CDN origins
-      if (allowedOrigins.some(origin => url.origin === origin || url.href.startsWith(origin))) {
+      // Allow API/CDN origins advertised by the instance
+      if (isAllowedOrigin(url.origin)) {
         return;
       }
 
@@ -138,14 +191,16 @@ if (acquiredLock) {
 
     // handle links externally
     contents.setWindowOpenHandler(({ url }) => {
-      if (
-        url.startsWith("http:") ||
-        url.startsWith("https:") ||
-        url.startsWith("mailto:")
-      ) {
-        setImmediate(() => {
-          shell.openExternal(url);
-        });
+      // links to the client itself navigate the main window
+      const link = parseClientLink(url);
+      if (link) {
+        setImmediate(() => openDeepLink(link));
+      } else {
+        setImmediate(() =>
+          openExternalLink(url, BrowserWindow.fromWebContents(contents)).catch(
+            (err) => console.error("[Links] Failed to open link:", err),
+          ),
+        );
       }
 
       return { action: "deny" };
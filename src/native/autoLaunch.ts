@@ -2,6 +2,7 @@ import AutoLaunch from "auto-launch";
 
 import { ipcMain } from "electron";
 
+import { isLocked, policy } from "./policy";
 import { mainWindow } from "./window";
 
 export const autoLaunch = new AutoLaunch({
@@ -13,8 +14,26 @@ ipcMain.handle("getAutostart", async () => {
   return enabled;
 });
 
+/**
+ * Apply the autostart state required by policy
+ * @returns Whether autostart is locked by policy
+ */
+export async function enforceAutostartPolicy() {
+  if (!isLocked("autostart")) return false;
+
+  if (policy.autostart) {
+    await autoLaunch.enable();
+  } else {
+    await autoLaunch.disable();
+  }
+
+  return true;
+}
+
 ipcMain.handle("setAutostart", async (_event, state: boolean) => {
-  if (state) {
+  if (isLocked("autostart")) {
+    console.warn("Rejected configuration autoStart: locked by policy");
+  } else if (state) {
     await autoLaunch.enable();
     console.log("Received new configuration autoStart: true");
   } else {
@@ -1,19 +1,38 @@
 import dbus from "@homebridge/dbus-native";
 
-import { NativeImage, app, ipcMain, nativeImage } from "electron";
+import {
+  BrowserWindow,
+  NativeImage,
+  app,
+  ipcMain,
+  nativeImage,
+} from "electron";
 
-import { mainWindow } from "./window";
+import { getAppWindows, getFocusedWindow } from "./popout";
+import {
+  getActiveProfile,
+  getProfileBadgeCount,
+  setProfileBadgeCount,
+} from "./profiles";
 
 // internal state
 const nativeIcons: Record<number, NativeImage> = {};
 let sessionBus: dbus.MessageBus | null;
 
-export async function setBadgeCount(count: number) {
+export async function setBadgeCount(
+  count: number,
+  target: BrowserWindow = getFocusedWindow(),
+) {
   switch (process.platform) {
     case "win32":
-    case "linux":
+    case "linux": {
+      // the overlay follows the focused window
+      for (const window of getAppWindows()) {
+        if (window !== target) window.setOverlayIcon(null, "");
+      }
+
       if (count === 0) {
-        mainWindow.setOverlayIcon(null, "No Notifications");
+        target.setOverlayIcon(null, "No Notifications");
         break;
       }
 
@@ -24,12 +43,13 @@ export async function setBadgeCount(count: number) {
           ).then((asset) => asset.default),
         );
 
-      mainWindow.setOverlayIcon(
+      target.setOverlayIcon(
         nativeIcons[count],
         count === -1 ? `Unread Messages` : `${count} Notifications`,
       );
 
       break;
+    }
     // @ts-expect-error this is `linux` block
     case "_": // todo: try to get this to work
       // send D-Bus message
@@ -66,4 +86,14 @@ export async function setBadgeCount(count: number) {
   }
 }
 
-ipcMain.on("setBadgeCount", (_event, count: number) => setBadgeCount(count));
+ipcMain.on("setBadgeCount", (_event, count: number) => {
+  setProfileBadgeCount(count);
+  setBadgeCount(count);
+});
+
+// move the overlay along with focus
+app.on("browser-window-focus", (_event, window) => {
+  if (getAppWindows().includes(window)) {
+    setBadgeCount(getProfileBadgeCount(getActiveProfile().id), window);
+  }
+});
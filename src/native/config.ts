@@ -1,85 +1,58 @@
-import { type JSONSchema } from "json-schema-typed";
+import { type FSWatcher, copyFileSync, readFileSync, watch } from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { isDeepStrictEqual } from "node:util";
 
-import { ipcMain } from "electron";
+import { app, ipcMain } from "electron";
 import Store from "electron-store";
 
+import {
+  CONFIG_VERSION,
+  applyConfigMigrations,
+  migrateConfigFile,
+} from "./configMigrations";
+import { clearOverride, hasOverride, overrides } from "./configOverrides";
+import { configKeys, schema, validateConfigValue } from "./configSchema";
 import { destroyDiscordRpc, initDiscordRpc } from "./discordRpc";
+import { getLockedKeys, isLocked, policy } from "./policy";
+import { getAppWindows } from "./popout";
 import { cleanupPushToTalk, registerPushToTalkHotkey } from "./pushToTalk";
-import { mainWindow } from "./window";
-
-const schema = {
-  firstLaunch: {
-    type: "boolean",
-  } as JSONSchema.Boolean,
-  customFrame: {
-    type: "boolean",
-  } as JSONSchema.Boolean,
-  minimiseToTray: {
-    type: "boolean",
-  } as JSONSchema.Boolean,
-  startMinimisedToTray: {
-    type: "boolean",
-  } as JSONSchema.Boolean,
-  spellchecker: {
-    type: "boolean",
-  } as JSONSchema.Boolean,
-  hardwareAcceleration: {
-    type: "boolean",
-  } as JSONSchema.Boolean,
-  discordRpc: {
-    type: "boolean",
-  } as JSONSchema.Boolean,
-  pushToTalk: {
-    type: "boolean",
-  } as JSONSchema.Boolean,
-  pushToTalkKeybind: {
-    type: "string",
-  } as JSONSchema.String,
-  pushToTalkMode: {
-    type: "string",
-    enum: ["hold", "toggle"],
-  } as JSONSchema.String,
-  pushToTalkReleaseDelay: {
-    type: "number",
-    minimum: 0,
-    maximum: 5000,
-  } as JSONSchema.Number,
-  windowState: {
-    type: "object",
-    properties: {
-      x: {
-        type: "number",
-      } as JSONSchema.Number,
-      y: {
-        type: "number",
-      } as JSONSchema.Number,
-      width: {
-        type: "number",
-      } as JSONSchema.Number,
-      height: {
-        type: "number",
-      } as JSONSchema.Number,
-      isMaximised: {
-        type: "boolean",
-      } as JSONSchema.Boolean,
-    },
-  } as JSONSchema.Object,
-};
+import { validateShortcuts } from "./shortcuts";
+import { applySpellcheckerSettings } from "./spellchecker";
+
+// bring the on-disk configuration up to date before it is validated
+migrateConfigFile(join(app.getPath("userData"), "config.json"));
 
 const store = new Store({
   schema,
   defaults: {
+    configVersion: CONFIG_VERSION,
     firstLaunch: true,
     customFrame: true,
     minimiseToTray: true,
     startMinimisedToTray: false,
     spellchecker: true,
+    spellcheckerLanguages: [],
     hardwareAcceleration: true,
     discordRpc: true,
     pushToTalk: false,
     pushToTalkKeybind: "Shift+Space",
     pushToTalkMode: "hold",
     pushToTalkReleaseDelay: 0,
+    server: "",
+    instances: [],
+    webUpdateUrl: "",
+    confirmExternalLinks: true,
+    trustedDomains: [],
+    downloadDirectory: "",
+    askDownloadLocation: false,
+    recentDownloads: [],
+    screenShareSource: "",
+    screenShareAudio: false,
+    permissions: {},
+    shortcuts: {},
+    zoomLevels: {},
+    profiles: [{ id: "default", name: "Default" }],
+    activeProfile: "default",
     windowState: {
       x: 0,
       y: 0,
@@ -87,235 +60,826 @@ const store = new Store({
       height: 0,
       isMaximised: false,
     },
-  } as DesktopConfig,
+    windowStates: {},
+    popoutWindowStates: {},
+  } as DesktopConfig & { configVersion: number },
 });
 
+/**
+ * Keys which re-register the PTT hotkey when changed
+ */
+const pushToTalkKeys: (keyof DesktopConfig)[] = [
+  "pushToTalk",
+  "pushToTalkKeybind",
+  "pushToTalkMode",
+];
+
+/**
+ * Keys which only make sense on the machine they were written on
+ */
+const machineSpecificKeys: (keyof DesktopConfig)[] = [
+  "firstLaunch",
+  "profiles",
+  "activeProfile",
+  "windowState",
+  "windowStates",
+  "popoutWindowStates",
+  "zoomLevels",
+  "downloadDirectory",
+  "recentDownloads",
+  "screenShareSource",
+];
+
+/**
+ * Keys the client, a settings import or the configuration file can't set,
+ * only a policy, a command line override or their own IPC handlers
+ */
+const protectedKeys: (keyof DesktopConfig)[] = [
+  "webUpdateUrl",
+  "server",
+  "instances",
+  "permissions",
+  "recentDownloads",
+];
+
 /**
  * Shim for `electron-store` because typings are broken
  */
 class Config {
+  // last configuration sent to the renderer
+  private synced: DesktopConfig | null = null;
+
+  // depth of nested batched updates
+  private batchDepth = 0;
+
+  // values last written or accepted by this process, used to
+  // tell external edits of the file apart from our own writes
+  private known: Record<string, unknown> = {
+    ...(store as never as { store: Record<string, unknown> }).store,
+  };
+
+  /**
+   * Read a key, values locked by policy take precedence
+   * followed by overrides for this session
+   * @param key Configuration key
+   */
+  private read<K extends keyof DesktopConfig>(key: K): DesktopConfig[K] {
+    if (isLocked(key)) return policy[key] as DesktopConfig[K];
+    if (hasOverride(key)) return overrides[key] as DesktopConfig[K];
+    return (store as never as { get(k: K): DesktopConfig[K] }).get(key);
+  }
+
+  /**
+   * Write a key to the store, ending any session override for it
+   * @param key Configuration key
+   * @param value New value
+   */
+  private write<K extends keyof DesktopConfig>(
+    key: K,
+    value: DesktopConfig[K],
+  ) {
+    clearOverride(key);
+    (store as never as { set(k: K, value: DesktopConfig[K]): void }).set(
+      key,
+      value,
+    );
+
+    this.known[key] = value;
+  }
+
+  /**
+   * Read every configuration key
+   */
+  snapshot() {
+    return Object.fromEntries(
+      configKeys.map((key) => [key, this[key]]),
+    ) as DesktopConfig;
+  }
+
   sync() {
-    mainWindow.webContents.send("config", {
-      firstLaunch: this.firstLaunch,
-      customFrame: this.customFrame,
-      minimiseToTray: this.minimiseToTray,
-      startMinimisedToTray: this.startMinimisedToTray,
-      spellchecker: this.spellchecker,
-      hardwareAcceleration: this.hardwareAcceleration,
-      discordRpc: this.discordRpc,
-      pushToTalk: this.pushToTalk,
-      pushToTalkKeybind: this.pushToTalkKeybind,
-      pushToTalkMode: this.pushToTalkMode,
-      pushToTalkReleaseDelay: this.pushToTalkReleaseDelay,
-      windowState: this.windowState,
+    // wait until the whole batch has been applied
+    if (this.batchDepth > 0) return;
+
+    const current = this.snapshot();
+    const changes: ConfigChange[] = [];
+
+    if (this.synced) {
+      for (const key of configKeys) {
+        if (!isDeepStrictEqual(this.synced[key], current[key])) {
+          changes.push({
+            key,
+            oldValue: this.synced[key],
+            newValue: current[key],
+          });
+        }
+      }
+    }
+
+    this.synced = current;
+
+    for (const window of getAppWindows()) {
+      if (window.webContents.isDestroyed()) continue;
+
+      window.webContents.send("config", current, getLockedKeys());
+
+      if (changes.length) {
+        window.webContents.send("config-changed", changes);
+      }
+    }
+  }
+
+  /**
+   * Apply several updates and only sync once they are all written
+   * @param fn Function performing the updates
+   */
+  batch<T>(fn: () => T): T {
+    this.batchDepth++;
+
+    try {
+      return fn();
+    } finally {
+      this.batchDepth--;
+      this.sync();
+    }
+  }
+
+  /**
+   * Apply a partial update atomically and sync once
+   *
+   * Nothing is written if any of the values fail validation
+   * or try to change a setting locked by policy.
+   * @param update Keys to change
+   */
+  async set(update: Partial<DesktopConfig>): Promise<ConfigSetResult> {
+    const result: ConfigSetResult = { errors: {}, effects: {} };
+    const writable: Partial<DesktopConfig> = {};
+
+    for (const [key, value] of Object.entries(update)) {
+      const errors = configKeys.includes(key as keyof DesktopConfig)
+        ? validateConfigValue(key, value)
+        : ["unknown setting"];
+
+      if (isLocked(key)) {
+        // allow clients to echo back the locked value
+        if (!isDeepStrictEqual(policy[key], value)) {
+          errors.push("locked by policy");
+        }
+      } else if (protectedKeys.includes(key as keyof DesktopConfig)) {
+        if (!isDeepStrictEqual(this[key as keyof DesktopConfig], value)) {
+          errors.push("cannot be changed through the configuration");
+        }
+      } else {
+        writable[key as keyof DesktopConfig] = value as never;
+      }
+
+      if (errors.length) {
+        result.errors[key] = errors;
+      }
+    }
+
+    // bindings must not clash with each other or the PTT keybind
+    if (
+      Object.keys(result.errors).length === 0 &&
+      ("shortcuts" in writable || "pushToTalkKeybind" in writable)
+    ) {
+      const errors = validateShortcuts(
+        writable.shortcuts ?? this.shortcuts,
+        writable.pushToTalkKeybind ?? this.pushToTalkKeybind,
+      );
+
+      if (errors.length) {
+        result.errors[
+          "shortcuts" in writable ? "shortcuts" : "pushToTalkKeybind"
+        ] = errors;
+      }
+    }
+
+    if (Object.keys(result.errors).length) return result;
+
+    const previous = this.snapshot();
+
+    Object.keys(writable).forEach(clearOverride);
+    (store as never as { set(values: Partial<DesktopConfig>): void }).set(
+      writable,
+    );
+
+    Object.assign(this.known, writable);
+
+    const changed = (Object.keys(writable) as (keyof DesktopConfig)[]).filter(
+      (key) => !isDeepStrictEqual(previous[key], this[key]),
+    );
+
+    if (
+      changed.includes("spellchecker") ||
+      changed.includes("spellcheckerLanguages")
+    ) {
+      result.effects.spellchecker = this.applySpellchecker();
+    }
+
+    if (changed.includes("discordRpc")) {
+      result.effects.discordRpc = await this.applyDiscordRpc();
+    }
+
+    if (changed.some((key) => pushToTalkKeys.includes(key))) {
+      result.effects.pushToTalk = await this.applyPushToTalk();
+    }
+
+    this.sync();
+    return result;
+  }
+
+  /**
+   * Apply the spellchecker settings to the window sessions
+   * @returns Whether the setting took effect
+   */
+  private applySpellchecker() {
+    try {
+      for (const window of getAppWindows()) {
+        applySpellcheckerSettings(window.webContents.session);
+      }
+
+      return true;
+    } catch (err) {
+      console.error("[Config] Failed to apply spellchecker settings:", err);
+      return false;
+    }
+  }
+
+  /**
+   * Start or stop Discord RPC according to the setting
+   * @returns Whether the setting took effect
+   */
+  private async applyDiscordRpc() {
+    if (!this.discordRpc) {
+      await destroyDiscordRpc();
+      return true;
+    }
+
+    return initDiscordRpc();
+  }
+
+  /**
+   * Register or remove the PTT hotkey according to the settings
+   * @returns Whether the setting took effect
+   */
+  private async applyPushToTalk() {
+    if (!this.pushToTalk) {
+      cleanupPushToTalk();
+      return true;
+    }
+
+    return registerPushToTalkHotkey().catch((err) => {
+      console.error("[Config] Failed to register PTT hotkey:", err);
+      return false;
+    });
+  }
+
+  /**
+   * Watch the configuration file and apply changes made by other programs
+   */
+  watchFile() {
+    const path = (store as never as { path: string }).path;
+    let timeout: NodeJS.Timeout | null = null;
+
+    let watcher: FSWatcher;
+    try {
+      // watch the directory as atomic writes replace the file
+      watcher = watch(dirname(path), { persistent: false }, (_, filename) => {
+        if (filename !== basename(path)) return;
+
+        if (timeout) clearTimeout(timeout);
+        timeout = setTimeout(() => {
+          timeout = null;
+          this.reloadFile(path);
+        }, 250);
+      });
+    } catch (err) {
+      console.error("[Config] Failed to watch the configuration file:", err);
+      return;
+    }
+
+    // e.g. the directory was removed or no more watches are available
+    watcher.on("error", (err) => {
+      console.error("[Config] Stopped watching the configuration file:", err);
+      if (timeout) clearTimeout(timeout);
+      watcher.close();
+    });
+  }
+
+  /**
+   * Apply external changes to the configuration file through the setters
+   * @param path Path to the configuration file
+   */
+  private reloadFile(path: string) {
+    let data: Record<string, unknown> | null = null;
+    let invalid = false;
+
+    try {
+      data = JSON.parse(readFileSync(path, "utf8"));
+      if (typeof data !== "object" || data === null || Array.isArray(data)) {
+        throw new TypeError("configuration must be an object");
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("[Config] Ignoring invalid configuration file:", err);
+      }
+
+      data = null;
+      invalid = true;
+    }
+
+    const changes: Partial<DesktopConfig> = {};
+
+    if (data) {
+      for (const key of configKeys) {
+        if (protectedKeys.includes(key)) continue;
+
+        if (!(key in data)) {
+          invalid = true;
+          continue;
+        }
+
+        if (isDeepStrictEqual(data[key], this.known[key])) continue;
+
+        const errors = validateConfigValue(key, data[key]);
+        if (errors.length) {
+          console.error(
+            `[Config] Ignoring invalid value for "${key}":`,
+            errors,
+          );
+          invalid = true;
+        } else {
+          changes[key] = data[key] as never;
+        }
+      }
+    }
+
+    // bindings edited in the file must not clash either
+    if ("shortcuts" in changes || "pushToTalkKeybind" in changes) {
+      const errors = validateShortcuts(
+        changes.shortcuts ?? this.shortcuts,
+        changes.pushToTalkKeybind ?? this.pushToTalkKeybind,
+      );
+
+      if (errors.length) {
+        console.error("[Config] Ignoring conflicting shortcuts:", errors);
+        delete changes.shortcuts;
+        delete changes.pushToTalkKeybind;
+        invalid = true;
+      }
+    }
+
+    // the store refuses to read a file which fails validation,
+    // so put back the last good values and keep the broken file aside
+    if (invalid) {
+      try {
+        copyFileSync(path, join(dirname(path), "config.invalid.json"));
+      } catch {
+        // file was deleted
+      }
+
+      (store as never as { store: Record<string, unknown> }).store = {
+        ...this.known,
+      };
+    }
+
+    const keys = Object.keys(changes) as (keyof DesktopConfig)[];
+    if (keys.length === 0) return;
+
+    console.info("[Config] Applying external changes:", changes);
+
+    this.batch(() => {
+      for (const key of keys) {
+        this[key] = changes[key] as never;
+      }
     });
   }
 
   get firstLaunch() {
-    return (store as never as { get(k: string): boolean }).get("firstLaunch");
+    return this.read("firstLaunch");
   }
 
   set firstLaunch(value: boolean) {
-    (store as never as { set(k: string, value: boolean): void }).set(
-      "firstLaunch",
-      value,
-    );
+    this.write("firstLaunch", value);
 
     this.sync();
   }
 
   get customFrame() {
-    return (store as never as { get(k: string): boolean }).get("customFrame");
+    return this.read("customFrame");
   }
 
   set customFrame(value: boolean) {
-    (store as never as { set(k: string, value: boolean): void }).set(
-      "customFrame",
-      value,
-    );
+    this.write("customFrame", value);
 
     this.sync();
   }
 
   get minimiseToTray() {
-    return (store as never as { get(k: string): boolean }).get(
-      "minimiseToTray",
-    );
+    return this.read("minimiseToTray");
   }
 
   set minimiseToTray(value: boolean) {
-    (store as never as { set(k: string, value: boolean): void }).set(
-      "minimiseToTray",
-      value,
-    );
+    this.write("minimiseToTray", value);
 
     this.sync();
   }
 
   get startMinimisedToTray() {
-    return (store as never as { get(k: string): boolean }).get(
-      "startMinimisedToTray",
-    );
+    return this.read("startMinimisedToTray");
   }
 
   set startMinimisedToTray(value: boolean) {
-    (store as never as { set(k: string, value: boolean): void }).set(
-      "startMinimisedToTray",
-      value,
-    );
+    this.write("startMinimisedToTray", value);
 
     this.sync();
   }
 
   get spellchecker() {
-    return (store as never as { get(k: string): boolean }).get("spellchecker");
+    return this.read("spellchecker");
   }
 
   set spellchecker(value: boolean) {
-    mainWindow.webContents.session.setSpellCheckerEnabled(value);
+    this.write("spellchecker", value);
 
-    (store as never as { set(k: string, value: boolean): void }).set(
-      "spellchecker",
-      value,
-    );
+    this.applySpellchecker();
+    this.sync();
+  }
 
+  get spellcheckerLanguages() {
+    return this.read("spellcheckerLanguages");
+  }
+
+  set spellcheckerLanguages(value: string[]) {
+    this.write("spellcheckerLanguages", value);
+
+    this.applySpellchecker();
     this.sync();
   }
 
   get hardwareAcceleration() {
-    return (store as never as { get(k: string): boolean }).get(
-      "hardwareAcceleration",
-    );
+    return this.read("hardwareAcceleration");
   }
 
   set hardwareAcceleration(value: boolean) {
-    (store as never as { set(k: string, value: boolean): void }).set(
-      "hardwareAcceleration",
-      value,
-    );
+    this.write("hardwareAcceleration", value);
 
     this.sync();
   }
 
   get discordRpc() {
-    return (store as never as { get(k: string): boolean }).get("discordRpc");
+    return this.read("discordRpc");
   }
 
   set discordRpc(value: boolean) {
-    if (value) {
-      initDiscordRpc();
-    } else {
-      destroyDiscordRpc();
-    }
-
-    (store as never as { set(k: string, value: boolean): void }).set(
-      "discordRpc",
-      value,
-    );
+    this.write("discordRpc", value);
 
+    this.applyDiscordRpc();
     this.sync();
   }
 
   get pushToTalk() {
-    return (store as never as { get(k: string): boolean }).get("pushToTalk");
+    return this.read("pushToTalk");
   }
 
   set pushToTalk(value: boolean) {
-    (store as never as { set(k: string, value: boolean): void }).set(
-      "pushToTalk",
-      value,
-    );
-
-    if (value) {
-      registerPushToTalkHotkey().catch((err) => {
-        console.error("[Config] Failed to register PTT hotkey:", err);
-      });
-    } else {
-      cleanupPushToTalk();
-    }
+    this.write("pushToTalk", value);
 
+    this.applyPushToTalk();
     this.sync();
   }
 
   get pushToTalkKeybind() {
-    return (store as never as { get(k: string): string }).get(
-      "pushToTalkKeybind",
-    );
+    return this.read("pushToTalkKeybind");
   }
 
   set pushToTalkKeybind(value: string) {
-    (store as never as { set(k: string, value: string): void }).set(
-      "pushToTalkKeybind",
-      value,
-    );
+    this.write("pushToTalkKeybind", value);
 
     if (this.pushToTalk) {
-      registerPushToTalkHotkey().catch((err) => {
-        console.error("[Config] Failed to re-register PTT hotkey:", err);
-      });
+      this.applyPushToTalk();
     }
 
     this.sync();
   }
 
   get pushToTalkMode() {
-    return (store as never as { get(k: string): "hold" | "toggle" }).get(
-      "pushToTalkMode",
-    );
+    return this.read("pushToTalkMode");
   }
 
   set pushToTalkMode(value: "hold" | "toggle") {
-    (store as never as { set(k: string, value: "hold" | "toggle"): void }).set(
-      "pushToTalkMode",
-      value,
-    );
+    this.write("pushToTalkMode", value);
 
     if (this.pushToTalk) {
-      registerPushToTalkHotkey().catch((err) => {
-        console.error("[Config] Failed to re-register PTT hotkey:", err);
-      });
+      this.applyPushToTalk();
     }
 
     this.sync();
   }
 
   get pushToTalkReleaseDelay() {
-    return (store as never as { get(k: string): number }).get(
-      "pushToTalkReleaseDelay",
-    );
+    return this.read("pushToTalkReleaseDelay");
   }
 
   set pushToTalkReleaseDelay(value: number) {
-    (store as never as { set(k: string, value: number): void }).set(
-      "pushToTalkReleaseDelay",
-      value,
-    );
+    this.write("pushToTalkReleaseDelay", value);
+
+    this.sync();
+  }
+
+  get server() {
+    return this.read("server");
+  }
+
+  set server(value: string) {
+    this.write("server", value);
+
+    this.sync();
+  }
+
+  get instances() {
+    return this.read("instances");
+  }
+
+  set instances(value: DesktopInstance[]) {
+    this.write("instances", value);
+
+    this.sync();
+  }
+
+  get webUpdateUrl() {
+    // only a policy or the command line may set it, the stored value is ignored
+    return isLocked("webUpdateUrl") || hasOverride("webUpdateUrl")
+      ? this.read("webUpdateUrl")
+      : "";
+  }
+
+  set webUpdateUrl(value: string) {
+    this.write("webUpdateUrl", value);
+
+    this.sync();
+  }
+
+  get confirmExternalLinks() {
+    return this.read("confirmExternalLinks");
+  }
+
+  set confirmExternalLinks(value: boolean) {
+    this.write("confirmExternalLinks", value);
+
+    this.sync();
+  }
+
+  get trustedDomains() {
+    return this.read("trustedDomains");
+  }
+
+  set trustedDomains(value: string[]) {
+    this.write("trustedDomains", value);
+
+    this.sync();
+  }
+
+  get downloadDirectory() {
+    return this.read("downloadDirectory");
+  }
+
+  set downloadDirectory(value: string) {
+    this.write("downloadDirectory", value);
+
+    this.sync();
+  }
+
+  get askDownloadLocation() {
+    return this.read("askDownloadLocation");
+  }
+
+  set askDownloadLocation(value: boolean) {
+    this.write("askDownloadLocation", value);
+
+    this.sync();
+  }
+
+  get recentDownloads() {
+    return this.read("recentDownloads");
+  }
+
+  set recentDownloads(value: DesktopDownload[]) {
+    this.write("recentDownloads", value);
+
+    this.sync();
+  }
+
+  get screenShareSource() {
+    return this.read("screenShareSource");
+  }
+
+  set screenShareSource(value: string) {
+    this.write("screenShareSource", value);
+
+    this.sync();
+  }
+
+  get screenShareAudio() {
+    return this.read("screenShareAudio");
+  }
+
+  set screenShareAudio(value: boolean) {
+    this.write("screenShareAudio", value);
+
+    this.sync();
+  }
+
+  get permissions() {
+    return this.read("permissions");
+  }
+
+  set permissions(value: DesktopConfig["permissions"]) {
+    this.write("permissions", value);
+
+    this.sync();
+  }
+
+  get shortcuts() {
+    return this.read("shortcuts");
+  }
+
+  set shortcuts(value: DesktopConfig["shortcuts"]) {
+    this.write("shortcuts", value);
+
+    this.sync();
+  }
+
+  get zoomLevels() {
+    return this.read("zoomLevels");
+  }
+
+  set zoomLevels(value: DesktopConfig["zoomLevels"]) {
+    this.write("zoomLevels", value);
+
+    this.sync();
+  }
+
+  get profiles() {
+    return this.read("profiles");
+  }
+
+  set profiles(value: DesktopConfig["profiles"]) {
+    this.write("profiles", value);
+
+    this.sync();
+  }
+
+  get activeProfile() {
+    return this.read("activeProfile");
+  }
+
+  set activeProfile(value: string) {
+    this.write("activeProfile", value);
 
     this.sync();
   }
 
   get windowState() {
-    return (
-      store as never as { get(k: string): DesktopConfig["windowState"] }
-    ).get("windowState");
+    return this.read("windowState");
   }
 
   set windowState(value: DesktopConfig["windowState"]) {
-    (
-      store as never as {
-        set(k: string, value: DesktopConfig["windowState"]): void;
-      }
-    ).set("windowState", value);
+    this.write("windowState", value);
+
+    this.sync();
+  }
+
+  get windowStates() {
+    return this.read("windowStates");
+  }
+
+  set windowStates(value: DesktopConfig["windowStates"]) {
+    this.write("windowStates", value);
 
     this.sync();
   }
+
+  get popoutWindowStates() {
+    return this.read("popoutWindowStates");
+  }
+
+  set popoutWindowStates(value: DesktopConfig["popoutWindowStates"]) {
+    this.write("popoutWindowStates", value);
+
+    this.sync();
+  }
+
+  /**
+   * Serialise all portable settings to JSON
+   *
+   * Stored values are exported, without policy locks or session overrides.
+   */
+  exportSettings() {
+    const settings: Record<string, unknown> = {
+      configVersion: CONFIG_VERSION,
+    };
+
+    for (const key of configKeys) {
+      if (machineSpecificKeys.includes(key) || protectedKeys.includes(key)) {
+        continue;
+      }
+
+      settings[key] = (
+        store as never as { get(k: keyof DesktopConfig): unknown }
+      ).get(key);
+    }
+
+    return JSON.stringify(settings, undefined, 2);
+  }
+
+  /**
+   * Apply settings previously produced by `exportSettings`
+   *
+   * Nothing is applied if any of the settings fail validation.
+   * @param json Exported settings
+   */
+  async importSettings(json: string): Promise<SettingsImportResult> {
+    const result: SettingsImportResult = {
+      applied: [],
+      skipped: [],
+      errors: {},
+    };
+
+    let settings: Record<string, unknown>;
+    try {
+      settings = JSON.parse(json);
+    } catch (err) {
+      result.errors[""] = [`invalid JSON: ${(err as Error).message}`];
+      return result;
+    }
+
+    if (
+      typeof settings !== "object" ||
+      settings === null ||
+      Array.isArray(settings)
+    ) {
+      result.errors[""] = ["settings must be an object"];
+      return result;
+    }
+
+    // exports from older versions go through the same migrations
+    applyConfigMigrations(settings);
+
+    const updates: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(settings)) {
+      if (key === "configVersion") continue;
+
+      if (
+        !configKeys.includes(key as keyof DesktopConfig) ||
+        machineSpecificKeys.includes(key as keyof DesktopConfig) ||
+        protectedKeys.includes(key as keyof DesktopConfig) ||
+        isLocked(key)
+      ) {
+        result.skipped.push(key);
+        continue;
+      }
+
+      const errors = validateConfigValue(key, value);
+      if (errors.length) {
+        result.errors[key] = errors;
+      } else {
+        updates[key] = value;
+      }
+    }
+
+    if (Object.keys(result.errors).length) return result;
+
+    // the update can still be refused as a whole, e.g. for clashing shortcuts
+    const { errors } = await this.set(updates);
+    if (Object.keys(errors).length) {
+      result.errors = errors;
+      return result;
+    }
+
+    result.applied = Object.keys(updates) as (keyof DesktopConfig)[];
+
+    return result;
+  }
 }
 
 export const config = new Config();
 
-ipcMain.on("config", (_, newConfig: Partial<DesktopConfig>) => {
+ipcMain.handle("config", async (_, newConfig: Partial<DesktopConfig>) => {
   console.info("Received new configuration", newConfig);
-  Object.entries(newConfig).forEach(
-    ([key, value]) => (config[key as keyof DesktopConfig] = value as never),
-  );
+
+  const result = await config.set(newConfig);
+  if (Object.keys(result.errors).length) {
+    console.warn("Rejected configuration", result.errors);
+  }
+
+  return result;
+});
+
+ipcMain.handle("exportSettings", () => config.exportSettings());
+
+ipcMain.handle("importSettings", async (_, json: string) => {
+  const result = await config.importSettings(json);
+  console.info("Imported settings", result);
+  return result;
 });
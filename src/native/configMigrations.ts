@@ -0,0 +1,204 @@
+import {
+  appendFileSync,
+  copyFileSync,
+  existsSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+
+type RawConfig = Record<string, unknown>;
+
+/**
+ * A single step in the configuration format history
+ */
+interface ConfigMigration {
+  /**
+   * Version the configuration is at after this step has run
+   */
+  version: number;
+
+  /**
+   * Human-readable summary of the step
+   */
+  description: string;
+
+  /**
+   * Mutate the raw configuration in place
+   * @returns list of changes that were made
+   */
+  migrate(config: RawConfig): string[];
+}
+
+/**
+ * Ordered list of migrations, append new steps to the end
+ */
+const migrations: ConfigMigration[] = [
+  {
+    version: 1,
+    description: "Introduce versioned configuration format",
+    migrate(config) {
+      const changes: string[] = [];
+
+      // reset values that would fail schema validation
+      if (
+        "pushToTalkMode" in config &&
+        config.pushToTalkMode !== "hold" &&
+        config.pushToTalkMode !== "toggle"
+      ) {
+        changes.push(
+          `pushToTalkMode: reset invalid value ${JSON.stringify(config.pushToTalkMode)} to "hold"`,
+        );
+
+        config.pushToTalkMode = "hold";
+      }
+
+      if ("pushToTalkReleaseDelay" in config) {
+        const delay = Number(config.pushToTalkReleaseDelay);
+        const clamped = Number.isFinite(delay)
+          ? Math.min(Math.max(delay, 0), 5000)
+          : 0;
+
+        if (clamped !== config.pushToTalkReleaseDelay) {
+          changes.push(
+            `pushToTalkReleaseDelay: ${JSON.stringify(config.pushToTalkReleaseDelay)} -> ${clamped}`,
+          );
+
+          config.pushToTalkReleaseDelay = clamped;
+        }
+      }
+
+      return changes;
+    },
+  },
+  {
+    version: 2,
+    description: "Skip the instance picker for existing users",
+    migrate(config) {
+      // earlier versions never cleared the flag, so any saved settings
+      // mean the app has been used before
+      const hasData = Object.keys(config).some(
+        (key) => key !== "configVersion" && key !== "firstLaunch",
+      );
+
+      if (!hasData || config.firstLaunch === false) return [];
+
+      config.firstLaunch = false;
+      return ["firstLaunch: true -> false"];
+    },
+  },
+];
+
+/**
+ * Latest configuration format version
+ */
+export const CONFIG_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Record of a migration step that was applied
+ */
+export interface ConfigMigrationRecord {
+  version: number;
+  description: string;
+  changes: string[];
+}
+
+/**
+ * Apply all pending migrations to a raw configuration object
+ * @param config Raw configuration, mutated in place
+ * @returns Records for each step that was applied
+ */
+export function applyConfigMigrations(
+  config: RawConfig,
+): ConfigMigrationRecord[] {
+  const currentVersion =
+    typeof config.configVersion === "number" ? config.configVersion : 0;
+
+  const records: ConfigMigrationRecord[] = [];
+
+  for (const migration of migrations) {
+    if (migration.version <= currentVersion) continue;
+
+    records.push({
+      version: migration.version,
+      description: migration.description,
+      changes: migration.migrate(config),
+    });
+
+    config.configVersion = migration.version;
+  }
+
+  return records;
+}
+
+/**
+ * Migrate the configuration file on disk to the latest version
+ *
+ * The original file is backed up next to it before being rewritten,
+ * and every applied step is appended to `config-migrations.log`.
+ * @param path Path to the configuration file
+ */
+export function migrateConfigFile(path: string) {
+  // nothing to migrate on a fresh install
+  if (!existsSync(path)) return;
+
+  let config: RawConfig;
+  try {
+    config = JSON.parse(readFileSync(path, "utf8"));
+    if (
+      typeof config !== "object" ||
+      config === null ||
+      Array.isArray(config)
+    ) {
+      throw new TypeError("configuration must be an object");
+    }
+  } catch (err) {
+    console.error("[Config] Failed to read configuration for migration:", err);
+    return;
+  }
+
+  const fromVersion =
+    typeof config.configVersion === "number" ? config.configVersion : 0;
+
+  if (fromVersion > CONFIG_VERSION) {
+    console.warn(
+      `[Config] Configuration version ${fromVersion} is newer than supported version ${CONFIG_VERSION}, skipping migrations`,
+    );
+    return;
+  }
+
+  const records = applyConfigMigrations(config);
+  if (records.length === 0) return;
+
+  const backupPath = join(dirname(path), `config.v${fromVersion}.bak.json`);
+  try {
+    // keep a copy of the file as it was before we touched it
+    copyFileSync(path, backupPath);
+
+    // replace the file in one step so a crash can't leave it truncated
+    const tempPath = `${path}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(config, undefined, "\t"));
+    renameSync(tempPath, path);
+  } catch (err) {
+    console.error("[Config] Failed to write migrated configuration:", err);
+    return;
+  }
+
+  const timestamp = new Date().toISOString();
+  for (const record of records) {
+    console.info(
+      `[Config] Migrated to v${record.version} (${record.description})`,
+      record.changes,
+    );
+
+    try {
+      appendFileSync(
+        join(dirname(path), "config-migrations.log"),
+        JSON.stringify({ timestamp, backupPath, ...record }) + "\n",
+      );
+    } catch (err) {
+      console.error("[Config] Failed to log migration:", err);
+    }
+  }
+}
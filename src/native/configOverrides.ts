@@ -0,0 +1,113 @@
+import { type JSONSchema } from "json-schema-typed";
+
+import { configKeys, schema, validateConfigValue } from "./configSchema";
+
+/**
+ * Convert a raw command line or environment value to the type of a key
+ * @param key Configuration key
+ * @param raw Raw value
+ */
+function coerceValue(key: keyof DesktopConfig, raw: string): unknown {
+  const definition = schema[key] as JSONSchema;
+  if (typeof definition !== "object") return raw;
+
+  switch (definition.type) {
+    case "boolean":
+      switch (raw.toLowerCase()) {
+        case "":
+        case "1":
+        case "true":
+        case "yes":
+        case "on":
+          return true;
+        case "0":
+        case "false":
+        case "no":
+        case "off":
+          return false;
+        default:
+          return raw;
+      }
+    case "number":
+      return raw.trim() === "" ? raw : Number(raw);
+    case "object":
+    case "array":
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return raw;
+      }
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Collect overrides from `STOAT_CONFIG_<KEY>` variables
+ * and `--config.<key>=<value>` switches, the latter taking precedence
+ */
+function loadOverrides() {
+  const sources: [string, keyof DesktopConfig, string][] = [];
+
+  for (const key of configKeys) {
+    const name = `STOAT_CONFIG_${key.toUpperCase()}`;
+    if (typeof process.env[name] === "string") {
+      sources.push([name, key, process.env[name]]);
+    }
+  }
+
+  for (const arg of process.argv) {
+    const match = /^--config\.([^=]+)(?:=(.*))?$/s.exec(arg);
+    if (!match) continue;
+
+    const key = configKeys.find(
+      (key) => key.toLowerCase() === match[1].toLowerCase(),
+    );
+
+    if (!key) {
+      console.warn(`[Config] Ignoring override for unknown key: ${arg}`);
+      continue;
+    }
+
+    sources.push([arg, key, match[2] ?? ""]);
+  }
+
+  const overrides: Partial<DesktopConfig> = {};
+  for (const [source, key, raw] of sources) {
+    const value = coerceValue(key, raw);
+    const errors = validateConfigValue(key, value);
+
+    if (errors.length) {
+      console.warn(`[Config] Ignoring override ${source}:`, errors);
+    } else {
+      overrides[key] = value as never;
+    }
+  }
+
+  if (Object.keys(overrides).length) {
+    console.info("[Config] Session overrides:", overrides);
+  }
+
+  return overrides;
+}
+
+/**
+ * Values which apply for this session only and are never written to disk
+ */
+export const overrides = loadOverrides();
+
+/**
+ * Check whether a key is overridden for this session
+ * @param key Configuration key
+ */
+export function hasOverride(key: string): key is keyof DesktopConfig {
+  return Object.prototype.hasOwnProperty.call(overrides, key);
+}
+
+/**
+ * Drop the override for a key once the user changes it
+ * @param key Configuration key
+ */
+export function clearOverride(key: string) {
+  delete overrides[key as keyof DesktopConfig];
+}
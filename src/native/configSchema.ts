@@ -0,0 +1,327 @@
+import { type JSONSchema } from "json-schema-typed";
+
+const windowStateSchema = {
+  type: "object",
+  properties: {
+    x: {
+      type: "number",
+    } as JSONSchema.Number,
+    y: {
+      type: "number",
+    } as JSONSchema.Number,
+    width: {
+      type: "number",
+    } as JSONSchema.Number,
+    height: {
+      type: "number",
+    } as JSONSchema.Number,
+    isMaximised: {
+      type: "boolean",
+    } as JSONSchema.Boolean,
+  },
+  required: ["x", "y", "width", "height", "isMaximised"],
+} as JSONSchema.Object;
+
+export const schema = {
+  configVersion: {
+    type: "number",
+  } as JSONSchema.Number,
+  firstLaunch: {
+    type: "boolean",
+  } as JSONSchema.Boolean,
+  customFrame: {
+    type: "boolean",
+  } as JSONSchema.Boolean,
+  minimiseToTray: {
+    type: "boolean",
+  } as JSONSchema.Boolean,
+  startMinimisedToTray: {
+    type: "boolean",
+  } as JSONSchema.Boolean,
+  spellchecker: {
+    type: "boolean",
+  } as JSONSchema.Boolean,
+  spellcheckerLanguages: {
+    type: "array",
+    items: {
+      type: "string",
+    } as JSONSchema.String,
+  } as JSONSchema.Array,
+  hardwareAcceleration: {
+    type: "boolean",
+  } as JSONSchema.Boolean,
+  discordRpc: {
+    type: "boolean",
+  } as JSONSchema.Boolean,
+  pushToTalk: {
+    type: "boolean",
+  } as JSONSchema.Boolean,
+  pushToTalkKeybind: {
+    type: "string",
+  } as JSONSchema.String,
+  pushToTalkMode: {
+    type: "string",
+    enum: ["hold", "toggle"],
+  } as JSONSchema.String,
+  pushToTalkReleaseDelay: {
+    type: "number",
+    minimum: 0,
+    maximum: 5000,
+  } as JSONSchema.Number,
+  server: {
+    type: "string",
+  } as JSONSchema.String,
+  instances: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+        } as JSONSchema.String,
+        url: {
+          type: "string",
+        } as JSONSchema.String,
+        apiUrl: {
+          type: "string",
+        } as JSONSchema.String,
+        origins: {
+          type: "array",
+          items: {
+            type: "string",
+          } as JSONSchema.String,
+        } as JSONSchema.Array,
+      },
+      required: ["name", "url", "apiUrl", "origins"],
+    } as JSONSchema.Object,
+  } as JSONSchema.Array,
+  webUpdateUrl: {
+    type: "string",
+  } as JSONSchema.String,
+  confirmExternalLinks: {
+    type: "boolean",
+  } as JSONSchema.Boolean,
+  trustedDomains: {
+    type: "array",
+    items: {
+      type: "string",
+    } as JSONSchema.String,
+  } as JSONSchema.Array,
+  downloadDirectory: {
+    type: "string",
+  } as JSONSchema.String,
+  askDownloadLocation: {
+    type: "boolean",
+  } as JSONSchema.Boolean,
+  recentDownloads: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+        } as JSONSchema.String,
+        filename: {
+          type: "string",
+        } as JSONSchema.String,
+        path: {
+          type: "string",
+        } as JSONSchema.String,
+        url: {
+          type: "string",
+        } as JSONSchema.String,
+        state: {
+          type: "string",
+          enum: ["progressing", "completed", "cancelled", "interrupted"],
+        } as JSONSchema.String,
+        receivedBytes: {
+          type: "number",
+        } as JSONSchema.Number,
+        totalBytes: {
+          type: "number",
+        } as JSONSchema.Number,
+        startTime: {
+          type: "number",
+        } as JSONSchema.Number,
+      },
+      required: ["id", "filename", "path", "url", "state"],
+    } as JSONSchema.Object,
+  } as JSONSchema.Array,
+  screenShareSource: {
+    type: "string",
+  } as JSONSchema.String,
+  screenShareAudio: {
+    type: "boolean",
+  } as JSONSchema.Boolean,
+  permissions: {
+    type: "object",
+    additionalProperties: {
+      type: "object",
+      additionalProperties: {
+        type: "boolean",
+      } as JSONSchema.Boolean,
+    } as JSONSchema.Object,
+  } as JSONSchema.Object,
+  shortcuts: {
+    type: "object",
+    additionalProperties: {
+      type: "array",
+      items: {
+        type: "string",
+      } as JSONSchema.String,
+    } as JSONSchema.Array,
+  } as JSONSchema.Object,
+  zoomLevels: {
+    type: "object",
+    additionalProperties: {
+      type: "number",
+      minimum: -8,
+      maximum: 9,
+    } as JSONSchema.Number,
+  } as JSONSchema.Object,
+  profiles: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+        } as JSONSchema.String,
+        name: {
+          type: "string",
+        } as JSONSchema.String,
+      },
+      required: ["id", "name"],
+    } as JSONSchema.Object,
+  } as JSONSchema.Array,
+  activeProfile: {
+    type: "string",
+  } as JSONSchema.String,
+  windowState: windowStateSchema,
+  windowStates: {
+    type: "object",
+    additionalProperties: windowStateSchema,
+  } as JSONSchema.Object,
+  popoutWindowStates: {
+    type: "object",
+    additionalProperties: windowStateSchema,
+  } as JSONSchema.Object,
+};
+
+/**
+ * Keys exposed through the configuration API
+ */
+export const configKeys = Object.keys(schema).filter(
+  (key) => key !== "configVersion",
+) as (keyof DesktopConfig)[];
+
+/**
+ * Check a value against the schema entry for a configuration key
+ * @param key Configuration key
+ * @param value Value to check
+ * @returns List of problems, empty if the value is valid
+ */
+export function validateConfigValue(key: string, value: unknown): string[] {
+  if (!Object.prototype.hasOwnProperty.call(schema, key)) {
+    return [`unknown setting`];
+  }
+
+  return validate(schema[key as keyof typeof schema], value, key);
+}
+
+/**
+ * Validate a value against the subset of JSON schema used by the configuration
+ */
+function validate(
+  definition: JSONSchema,
+  value: unknown,
+  path: string,
+): string[] {
+  if (typeof definition !== "object") return [];
+
+  const errors: string[] = [];
+
+  switch (definition.type) {
+    case "boolean":
+      if (typeof value !== "boolean") errors.push(`${path} must be a boolean`);
+      break;
+    case "string":
+      if (typeof value !== "string") errors.push(`${path} must be a string`);
+      break;
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        errors.push(`${path} must be a number`);
+      } else {
+        if (
+          typeof definition.minimum === "number" &&
+          value < definition.minimum
+        ) {
+          errors.push(`${path} must be at least ${definition.minimum}`);
+        }
+
+        if (
+          typeof definition.maximum === "number" &&
+          value > definition.maximum
+        ) {
+          errors.push(`${path} must be at most ${definition.maximum}`);
+        }
+      }
+      break;
+    case "array":
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array`);
+      } else if (definition.items && !Array.isArray(definition.items)) {
+        value.forEach((item, index) =>
+          errors.push(
+            ...validate(
+              definition.items as JSONSchema,
+              item,
+              `${path}[${index}]`,
+            ),
+          ),
+        );
+      }
+      break;
+    case "object":
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        errors.push(`${path} must be an object`);
+      } else {
+        for (const property of definition.required ?? []) {
+          if (!Object.prototype.hasOwnProperty.call(value, property)) {
+            errors.push(`${path}.${property} is required`);
+          }
+        }
+
+        for (const [property, propertyValue] of Object.entries(value)) {
+          const propertyDefinition =
+            definition.properties?.[property] ??
+            definition.additionalProperties;
+
+          if (propertyDefinition === false) {
+            errors.push(`${path}.${property} is not allowed`);
+          } else if (propertyDefinition !== undefined) {
+            errors.push(
+              ...validate(
+                propertyDefinition,
+                propertyValue,
+                `${path}.${property}`,
+              ),
+            );
+          }
+        }
+      }
+      break;
+  }
+
+  if (
+    definition.enum &&
+    errors.length === 0 &&
+    !definition.enum.includes(value as never)
+  ) {
+    errors.push(
+      `${path} must be one of ${definition.enum.map((entry) => JSON.stringify(entry)).join(", ")}`,
+    );
+  }
+
+  return errors;
+}
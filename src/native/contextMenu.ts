@@ -0,0 +1,253 @@
+import {
+  BrowserWindow,
+  ContextMenuParams,
+  Menu,
+  MenuItemConstructorOptions,
+  app,
+  clipboard,
+  shell,
+} from "electron";
+
+import { config } from "./config";
+import { downloadWithSaveDialog } from "./downloads";
+import { openExternalLink } from "./externalLinks";
+import {
+  getActiveLanguages,
+  getAvailableLanguages,
+  getLanguageName,
+  toggleLanguage,
+} from "./spellchecker";
+
+// used for "Search the web for…"
+const SEARCH_URL = "https://duckduckgo.com/?q=";
+
+// longest selection shown in the search entry
+const SEARCH_LABEL_LENGTH = 24;
+
+/**
+ * Check whether a URL should be handed to the system browser
+ * @param url URL
+ */
+function isExternalUrl(url: string) {
+  return /^(https?|mailto):/i.test(url);
+}
+
+/**
+ * Spelling suggestions and dictionary entries for a misspelled word
+ */
+function spellcheckItems(
+  window: BrowserWindow,
+  params: ContextMenuParams,
+): MenuItemConstructorOptions[] {
+  const items: MenuItemConstructorOptions[] = params.dictionarySuggestions.map(
+    (suggestion) => ({
+      label: suggestion,
+      click: () => window.webContents.replaceMisspelling(suggestion),
+    }),
+  );
+
+  // allow users to add the misspelled word to the dictionary
+  if (params.misspelledWord) {
+    items.push({
+      label: "Add to dictionary",
+      click: () =>
+        window.webContents.session.addWordToSpellCheckerDictionary(
+          params.misspelledWord,
+        ),
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Spellchecker toggle and language selection for text fields
+ */
+function spellcheckerSettingsItems(
+  window: BrowserWindow,
+): MenuItemConstructorOptions[] {
+  const items: MenuItemConstructorOptions[] = [
+    {
+      label: "Toggle spellcheck",
+      click() {
+        config.spellchecker = !config.spellchecker;
+      },
+    },
+  ];
+
+  const available = getAvailableLanguages();
+  if (config.spellchecker && available.length) {
+    const active = getActiveLanguages(window.webContents.session);
+
+    items.push({
+      label: "Spellcheck languages",
+      submenu: available
+        .map((code) => ({ code, name: getLanguageName(code) }))
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(({ code, name }) => ({
+          label: name,
+          type: "checkbox",
+          checked: active.includes(code),
+          // always keep at least one language
+          enabled: !(active.length === 1 && active.includes(code)),
+          click: () => toggleLanguage(code),
+        })),
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Editing entries, only those the focused element supports are shown
+ */
+function editItems(params: ContextMenuParams): MenuItemConstructorOptions[] {
+  const { editFlags, isEditable, selectionText } = params;
+
+  if (isEditable) {
+    return [
+      { role: "undo", enabled: editFlags.canUndo },
+      { role: "redo", enabled: editFlags.canRedo },
+      { type: "separator" },
+      { role: "cut", enabled: editFlags.canCut },
+      { role: "copy", enabled: editFlags.canCopy },
+      { role: "paste", enabled: editFlags.canPaste },
+      { role: "selectAll", enabled: editFlags.canSelectAll },
+    ];
+  }
+
+  return selectionText.trim() ? [{ role: "copy" }] : [];
+}
+
+/**
+ * Entries for searching the selected text
+ */
+function searchItems(params: ContextMenuParams): MenuItemConstructorOptions[] {
+  const text = params.selectionText.trim();
+  if (!text) return [];
+
+  const label =
+    text.length > SEARCH_LABEL_LENGTH
+      ? `${text.slice(0, SEARCH_LABEL_LENGTH)}…`
+      : text;
+
+  return [
+    {
+      label: `Search the web for “${label}”`,
+      click: () =>
+        shell
+          .openExternal(SEARCH_URL + encodeURIComponent(text))
+          .catch((err) => console.error("[Links] Failed to open search:", err)),
+    },
+  ];
+}
+
+/**
+ * Entries for a link under the cursor
+ */
+function linkItems(
+  window: BrowserWindow,
+  params: ContextMenuParams,
+): MenuItemConstructorOptions[] {
+  if (!params.linkURL) return [];
+
+  const items: MenuItemConstructorOptions[] = [
+    {
+      label: "Copy link",
+      click: () => clipboard.writeText(params.linkURL),
+    },
+  ];
+
+  if (isExternalUrl(params.linkURL)) {
+    items.push({
+      label: "Open in browser",
+      click: () =>
+        openExternalLink(params.linkURL, window).catch((err) =>
+          console.error("[Links] Failed to open link:", err),
+        ),
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Entries for an image under the cursor
+ */
+function imageItems(
+  window: BrowserWindow,
+  params: ContextMenuParams,
+): MenuItemConstructorOptions[] {
+  if (params.mediaType !== "image" || !params.srcURL) return [];
+
+  return [
+    {
+      label: "Copy image",
+      click: () => window.webContents.copyImageAt(params.x, params.y),
+    },
+    {
+      label: "Save image as…",
+      click: () => downloadWithSaveDialog(window.webContents, params.srcURL),
+    },
+    {
+      label: "Copy image address",
+      click: () => clipboard.writeText(params.srcURL),
+    },
+  ];
+}
+
+/**
+ * Build the context menu for a right-click
+ * @param window Window that was clicked
+ * @param params Details of what was clicked
+ */
+export function buildContextMenu(
+  window: BrowserWindow,
+  params: ContextMenuParams,
+) {
+  const sections = [
+    spellcheckItems(window, params),
+    linkItems(window, params),
+    imageItems(window, params),
+    editItems(params),
+    searchItems(params),
+  ];
+
+  // add spellchecker settings in text fields
+  if (params.isEditable) {
+    sections.push(spellcheckerSettingsItems(window));
+  }
+
+  if (!app.isPackaged) {
+    sections.push([
+      {
+        label: "Inspect element",
+        click: () => window.webContents.inspectElement(params.x, params.y),
+      },
+    ]);
+  }
+
+  // join the non-empty sections with separators
+  const template = sections
+    .filter((section) => section.length)
+    .flatMap<MenuItemConstructorOptions>((section, index) =>
+      index ? [{ type: "separator" }, ...section] : section,
+    );
+
+  return Menu.buildFromTemplate(template);
+}
+
+/**
+ * Show the context menu when a window is right-clicked
+ * @param window Application window
+ */
+export function attachContextMenu(window: BrowserWindow) {
+  window.webContents.on("context-menu", (_, params) => {
+    const menu = buildContextMenu(window, params);
+
+    // show menu if we've generated enough entries
+    if (menu.items.length > 0) {
+      menu.popup({ window });
+    }
+  });
+}
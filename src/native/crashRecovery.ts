@@ -0,0 +1,427 @@
+import { appendFileSync, mkdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import {
+  BrowserWindow,
+  IpcMainEvent,
+  WebContents,
+  app,
+  ipcMain,
+  net,
+  powerMonitor,
+  shell,
+} from "electron";
+
+import { config } from "./config";
+import { renderOfflinePage } from "./pages/offline";
+import { renderRecoveryPage } from "./pages/recovery";
+import { BUILD_URL, canLoadLocalClient, loadLocalClient } from "./window";
+
+// launch switch turning off hardware acceleration for one session
+export const SAFE_MODE_SWITCH = "disable-hardware-acceleration-once";
+
+// reload delays double from the first up to the last
+const RELOAD_DELAY = 2 * 1000;
+const MAX_RELOAD_DELAY = 60 * 1000;
+
+// consecutive automatic reloads before waiting for the user
+const MAX_AUTO_RELOADS = 5;
+
+// how long the page may stop responding before it is restarted
+const HANG_TIMEOUT = 15 * 1000;
+
+// how long the client must stay up before reloads start from scratch
+const STABLE_TIME = 60 * 1000;
+
+// crashes within this period count as repeating
+const REPEATED_CRASH_PERIOD = 10 * 60 * 1000;
+const REPEATED_CRASH_COUNT = 3;
+
+// how often the connection is checked while offline
+const ONLINE_POLL_INTERVAL = 2 * 1000;
+
+// error codes for loads cancelled by another navigation or the network
+const ERR_ABORTED = -3;
+const ERR_TIMED_OUT = -7;
+const ERR_NETWORK_CHANGED = -21;
+const ERR_CONNECTION_REFUSED = -102;
+const ERR_NAME_NOT_RESOLVED = -105;
+const ERR_INTERNET_DISCONNECTED = -106;
+const ERR_CONNECTION_TIMED_OUT = -118;
+const ERR_NAME_RESOLUTION_FAILED = -137;
+
+/**
+ * Entry in the crash log
+ */
+type CrashRecord = {
+  time: string;
+  reason: string;
+  exitCode: number | null;
+  url: string;
+};
+
+// ways to recover each window from its recovery page
+const recoveries = new WeakMap<WebContents, () => void>();
+
+// windows currently showing the recovery or offline page,
+// the only pages allowed to use the recovery actions
+const recoveryPagesShown = new WeakSet<WebContents>();
+
+/**
+ * Check whether a message came from the recovery or offline page itself
+ * @param event IPC event
+ */
+function isFromRecoveryPage(event: IpcMainEvent) {
+  return (
+    recoveryPagesShown.has(event.sender) &&
+    event.senderFrame === event.sender.mainFrame
+  );
+}
+
+/**
+ * Get the file crashes are recorded in
+ */
+function getCrashLogPath() {
+  return join(app.getPath("logs"), "crashes.jsonl");
+}
+
+/**
+ * Append a crash to the crash log
+ * @param record Crash
+ */
+function writeCrashRecord(record: CrashRecord) {
+  try {
+    mkdirSync(app.getPath("logs"), { recursive: true });
+    appendFileSync(getCrashLogPath(), `${JSON.stringify(record)}\n`);
+  } catch (err) {
+    console.error("[Recovery] Failed to write crash record:", err);
+  }
+}
+
+/**
+ * Count crashes recorded recently, including previous launches
+ */
+function countRecentCrashes() {
+  try {
+    const since = Date.now() - REPEATED_CRASH_PERIOD;
+
+    return readFileSync(getCrashLogPath(), "utf-8")
+      .split("\n")
+      .filter(Boolean)
+      .filter((line) => {
+        try {
+          return Date.parse((JSON.parse(line) as CrashRecord).time) > since;
+        } catch {
+          return false;
+        }
+      }).length;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Check whether a load failed because the server couldn't be reached
+ * @param errorCode Chromium network error code
+ */
+function isNetworkError(errorCode: number) {
+  // -1xx are connection errors, -2xx certificate errors are not
+  return (
+    (errorCode <= -100 && errorCode > -200) ||
+    errorCode === ERR_TIMED_OUT ||
+    errorCode === ERR_NETWORK_CHANGED
+  );
+}
+
+/**
+ * Explain a network error to the user
+ * @param errorCode Chromium network error code
+ */
+function describeNetworkError(errorCode: number) {
+  switch (errorCode) {
+    case ERR_INTERNET_DISCONNECTED:
+      return "You are not connected to the internet.";
+    case ERR_NAME_NOT_RESOLVED:
+    case ERR_NAME_RESOLUTION_FAILED:
+      return "The server's address could not be found.";
+    case ERR_CONNECTION_REFUSED:
+      return "The server refused the connection.";
+    case ERR_TIMED_OUT:
+    case ERR_CONNECTION_TIMED_OUT:
+      return "The server took too long to respond.";
+    default:
+      return "The server could not be reached.";
+  }
+}
+
+/**
+ * Check whether to offer restarting without hardware acceleration
+ */
+function shouldOfferSafeMode() {
+  return (
+    config.hardwareAcceleration &&
+    !app.commandLine.hasSwitch(SAFE_MODE_SWITCH) &&
+    countRecentCrashes() >= REPEATED_CRASH_COUNT
+  );
+}
+
+/**
+ * Restart the app with hardware acceleration turned off for one session
+ */
+export function restartInSafeMode() {
+  app.relaunch({
+    args: [
+      ...process.argv.slice(1).filter((arg) => arg !== `--${SAFE_MODE_SWITCH}`),
+      `--${SAFE_MODE_SWITCH}`,
+    ],
+  });
+
+  app.exit(0);
+}
+
+/**
+ * Reload the client when it crashes, hangs or fails to load,
+ * backing off and showing a recovery page in the meantime
+ * @param window Window to recover
+ * @param shouldRecover Whether to handle a failure, false if handled elsewhere
+ */
+export function attachCrashRecovery(
+  window: BrowserWindow,
+  shouldRecover: () => boolean = () => true,
+) {
+  const contents = window.webContents;
+
+  // automatic reloads since the client was last stable
+  let attempts = 0;
+
+  // connection retries since the client last loaded
+  let offlineAttempts = 0;
+
+  // whether the offline page is shown
+  let offline = false;
+
+  // whether the renderer was restarted because it stopped responding
+  let hung = false;
+
+  let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+  let hangTimer: ReturnType<typeof setTimeout> | null = null;
+  let stableTimer: ReturnType<typeof setTimeout> | null = null;
+  let onlinePoll: ReturnType<typeof setInterval> | null = null;
+
+  const clearTimers = () => {
+    [reloadTimer, hangTimer, stableTimer].forEach(clearTimeout);
+    clearInterval(onlinePoll);
+    reloadTimer = hangTimer = stableTimer = onlinePoll = null;
+    offline = false;
+  };
+
+  const reload = () => {
+    clearTimers();
+    if (!window.isDestroyed()) {
+      contents.loadURL(BUILD_URL.toString()).catch(() => {
+        // failures are handled by did-fail-load
+      });
+    }
+  };
+
+  /**
+   * Show a page in place of the client and reload after a delay
+   * @param html Page
+   * @param delay Milliseconds until reloading, null to wait for the user
+   */
+  const showPage = (html: string, delay: number | null) => {
+    recoveryPagesShown.add(contents);
+    contents
+      .loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`)
+      .catch((err) => console.error("[Recovery] Failed to show page:", err));
+
+    if (delay !== null) {
+      reloadTimer = setTimeout(reload, delay);
+    }
+  };
+
+  /**
+   * Show the recovery page and reload later unless it keeps failing
+   * @param title What happened
+   * @param message Details
+   */
+  const recover = (title: string, message: string) => {
+    clearTimers();
+    if (window.isDestroyed() || !shouldRecover()) return;
+
+    const delay =
+      attempts < MAX_AUTO_RELOADS
+        ? Math.min(RELOAD_DELAY * 2 ** attempts, MAX_RELOAD_DELAY)
+        : null;
+
+    attempts++;
+
+    showPage(
+      renderRecoveryPage({
+        title,
+        message,
+        retryIn: delay === null ? null : delay / 1000,
+        offerSafeMode: shouldOfferSafeMode(),
+      }),
+      delay,
+    );
+  };
+
+  /**
+   * Show the offline page and keep retrying until the client loads
+   * @param errorCode Chromium network error code
+   * @param message Details
+   */
+  const recoverOffline = (errorCode: number, message: string) => {
+    clearTimers();
+    if (window.isDestroyed() || !shouldRecover()) return;
+
+    const delay = Math.min(
+      RELOAD_DELAY * 2 ** offlineAttempts,
+      MAX_RELOAD_DELAY,
+    );
+
+    offlineAttempts++;
+
+    showPage(
+      renderOfflinePage({
+        reason: describeNetworkError(errorCode),
+        detail: message,
+        retryIn: delay / 1000,
+        canLoadLocalClient: canLoadLocalClient(),
+      }),
+      delay,
+    );
+
+    offline = true;
+
+    // retry as soon as the connection comes back
+    let wasOnline = net.isOnline();
+    onlinePoll = setInterval(() => {
+      const online = net.isOnline();
+      if (online && !wasOnline) reload();
+      wasOnline = online;
+    }, ONLINE_POLL_INTERVAL);
+  };
+
+  // networks are often unavailable right after waking up
+  const onResume = () => {
+    if (offline) reload();
+  };
+
+  powerMonitor.on("resume", onResume);
+
+  recoveries.set(contents, reload);
+
+  contents.on("render-process-gone", (_, details) => {
+    if (window.isDestroyed() || details.reason === "clean-exit") return;
+
+    const reason = hung ? "unresponsive" : details.reason;
+    hung = false;
+
+    console.error(
+      `[Recovery] Renderer gone (${reason}, exit code ${details.exitCode})`,
+    );
+
+    writeCrashRecord({
+      time: new Date().toISOString(),
+      reason,
+      exitCode: details.exitCode,
+      url: BUILD_URL.toString(),
+    });
+
+    recover(
+      reason === "unresponsive" ? "Stoat stopped responding" : "Stoat crashed",
+      `The page was restarted (${reason}, exit code ${details.exitCode}).`,
+    );
+  });
+
+  // restart the renderer if it stays frozen, which is then handled as a crash
+  contents.on("unresponsive", () => {
+    if (hangTimer) return;
+
+    hangTimer = setTimeout(() => {
+      hangTimer = null;
+      hung = true;
+      console.error("[Recovery] Page unresponsive, restarting renderer");
+      contents.forcefullyCrashRenderer();
+    }, HANG_TIMEOUT);
+  });
+
+  contents.on("responsive", () => {
+    clearTimeout(hangTimer);
+    hangTimer = null;
+  });
+
+  contents.on(
+    "did-fail-load",
+    (_, errorCode, errorDescription, url, isMainFrame) => {
+      if (
+        !isMainFrame ||
+        errorCode === ERR_ABORTED ||
+        url.startsWith("data:")
+      ) {
+        return;
+      }
+
+      console.error(`[Recovery] Failed to load ${url}: ${errorDescription}`);
+
+      const message = `${errorDescription} (${errorCode}) while loading ${url}`;
+      if (isNetworkError(errorCode)) {
+        recoverOffline(errorCode, message);
+      } else {
+        recover("Stoat failed to load", message);
+      }
+    },
+  );
+
+  // the client may not use the recovery page's actions once it has loaded
+  contents.on("did-navigate", (_, url) => {
+    if (!url.startsWith("data:")) {
+      recoveryPagesShown.delete(contents);
+    }
+  });
+
+  // start counting reloads from scratch once the client has stayed up
+  contents.on("did-finish-load", () => {
+    if (contents.getURL().startsWith("data:")) return;
+
+    offlineAttempts = 0;
+    clearTimeout(stableTimer);
+    stableTimer = setTimeout(() => {
+      stableTimer = null;
+      attempts = 0;
+    }, STABLE_TIME);
+  });
+
+  window.on("closed", () => {
+    clearTimers();
+    powerMonitor.off("resume", onResume);
+  });
+}
+
+ipcMain.on("recoveryReload", (event) => {
+  if (isFromRecoveryPage(event)) {
+    recoveries.get(event.sender)?.();
+  }
+});
+
+ipcMain.on("recoveryLoadLocalClient", (event) => {
+  // only offered from the offline page
+  if (isFromRecoveryPage(event)) {
+    loadLocalClient();
+  }
+});
+
+ipcMain.on("recoveryOpenLogs", (event) => {
+  if (isFromRecoveryPage(event)) {
+    shell.openPath(app.getPath("logs"));
+  }
+});
+
+ipcMain.on("recoveryRestartInSafeMode", (event) => {
+  // only offered from the recovery page
+  if (isFromRecoveryPage(event)) {
+    restartInSafeMode();
+  }
+});
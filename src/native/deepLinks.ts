@@ -0,0 +1,149 @@
+import { resolve } from "node:path";
+
+import { app } from "electron";
+
+import { getClientUrls } from "./instances";
+import { BUILD_URL, mainWindow } from "./window";
+
+// URL scheme the operating system opens the app with
+export const DEEP_LINK_SCHEME = "stoat-chat";
+
+// client routes links may navigate to
+const CLIENT_ROUTES = ["invite", "server", "channel", "bot", "friends"];
+
+// links opened before the main window was created
+const pendingLinks: DesktopDeepLink[] = [];
+
+/**
+ * Make the app the handler for its URL scheme
+ */
+export function registerDeepLinkScheme() {
+  // development builds are launched through the Electron binary
+  const registered = process.defaultApp
+    ? app.setAsDefaultProtocolClient(DEEP_LINK_SCHEME, process.execPath, [
+        resolve(process.argv[1]),
+      ])
+    : app.setAsDefaultProtocolClient(DEEP_LINK_SCHEME);
+
+  if (!registered) {
+    console.warn(`[DeepLink] Failed to register ${DEEP_LINK_SCHEME}:// links`);
+  }
+}
+
+/**
+ * Check a path points at a route of the client
+ * @param segments Path segments
+ * @returns Normalised path or null if the route is unknown
+ */
+function toClientPath(segments: string[]) {
+  const parts = segments.filter(Boolean);
+  return CLIENT_ROUTES.includes(parts[0]) ? `/${parts.join("/")}` : null;
+}
+
+/**
+ * Parse a link using the app's URL scheme, such as `stoat-chat://invite/CODE`
+ * @param link Link
+ * @returns Link to open or null if it isn't valid
+ */
+export function parseDeepLink(link: string): DesktopDeepLink | null {
+  try {
+    const url = new URL(link);
+    if (url.protocol !== `${DEEP_LINK_SCHEME}:`) return null;
+
+    // the route is parsed as the host when the link has a double slash
+    const path = toClientPath([url.host, ...url.pathname.split("/")]);
+    return path ? { url: link, path: path + url.search + url.hash } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a web link pointing at the client in use
+ * @param link Link
+ * @returns Link to open or null if it belongs elsewhere
+ */
+export function parseClientLink(link: string): DesktopDeepLink | null {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return null;
+  }
+
+  const clients = getClientUrls();
+  if (BUILD_URL.protocol === "https:" || BUILD_URL.protocol === "http:") {
+    clients.push(BUILD_URL);
+  }
+
+  for (const client of clients) {
+    const base = client.pathname.replace(/\/?$/, "/");
+    if (url.origin !== client.origin || !url.pathname.startsWith(base)) {
+      continue;
+    }
+
+    const path = toClientPath(url.pathname.slice(base.length).split("/"));
+    if (path) return { url: link, path: path + url.search + url.hash };
+  }
+
+  return null;
+}
+
+/**
+ * Find a link using the app's URL scheme in command line arguments
+ * @param argv Command line arguments
+ */
+export function findDeepLink(argv: string[]) {
+  return argv.find((arg) =>
+    arg.toLowerCase().startsWith(`${DEEP_LINK_SCHEME}:`),
+  );
+}
+
+/**
+ * Navigate the client in the main window to a link
+ * @param link Link to open
+ */
+export function openDeepLink(link: DesktopDeepLink) {
+  if (!mainWindow || mainWindow.isDestroyed()) {
+    pendingLinks.push(link);
+    return;
+  }
+
+  console.info("[DeepLink] Opening", link.path);
+
+  mainWindow.show();
+  mainWindow.restore();
+  mainWindow.focus();
+
+  // the page would miss links sent while it is still loading
+  const contents = mainWindow.webContents;
+  if (contents.isLoading()) {
+    contents.once("did-finish-load", () => contents.send("deepLink", link));
+  } else {
+    contents.send("deepLink", link);
+  }
+}
+
+/**
+ * Open a link using the app's URL scheme, ignoring invalid ones
+ * @param link Link
+ */
+export function handleDeepLink(link: string) {
+  const parsed = parseDeepLink(link);
+  if (parsed) {
+    openDeepLink(parsed);
+  } else {
+    console.warn("[DeepLink] Ignoring unsupported link:", link);
+  }
+}
+
+/**
+ * Open the link the app was launched with and any received
+ * before the main window was created
+ */
+export function initDeepLinks() {
+  const link = findDeepLink(process.argv);
+  if (link) handleDeepLink(link);
+
+  pendingLinks.splice(0).forEach(openDeepLink);
+}
@@ -2,20 +2,28 @@ import { Client } from "discord-rpc";
 
 import { config } from "./config";
 
+// how long to wait before connecting again
+const RECONNECT_DELAY = 1e4;
+
 // internal state
-let rpc: Client;
+let rpc: Client | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
+/**
+ * Connect to the local Discord client
+ * @returns Whether the connection was established
+ */
 export async function initDiscordRpc() {
-  if (!config.discordRpc) return;
+  // clean up existing client and retries if they exist
+  stopDiscordRpc();
+  if (!config.discordRpc) return false;
 
-  // clean up existing client if one exists
-  rpc?.removeAllListeners();
+  const client = new Client({ transport: "ipc" });
+  rpc = client;
 
   try {
-    rpc = new Client({ transport: "ipc" });
-
-    rpc.on("ready", () =>
-      rpc.setActivity({
+    client.on("ready", () =>
+      client.setActivity({
         state: "stoat.chat",
         details: "Chatting with others",
         largeImageKey: "qr",
@@ -29,16 +37,46 @@ export async function initDiscordRpc() {
       }),
     );
 
-    rpc.on("disconnected", reconnect);
+    client.on("disconnected", reconnect);
 
-    rpc.login({ clientId: "872068124005007420" });
+    await client.login({ clientId: "872068124005007420" });
+    return true;
   } catch (err) {
-    reconnect();
+    // a newer client may have replaced this one in the meantime
+    if (rpc === client) reconnect();
+    return false;
   }
 }
 
-const reconnect = () => setTimeout(() => initDiscordRpc(), 1e4);
+/**
+ * Try connecting again after a delay, replacing any pending retry
+ */
+function reconnect() {
+  clearTimeout(reconnectTimer);
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    initDiscordRpc();
+  }, RECONNECT_DELAY);
+}
+
+/**
+ * Cancel pending retries and close the current client
+ */
+function stopDiscordRpc() {
+  clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+
+  if (rpc) {
+    const client = rpc;
+    rpc = null;
+
+    client.removeAllListeners();
+    client.destroy().catch(() => {
+      // clients which never connected can't be closed
+    });
+  }
+}
 
 export async function destroyDiscordRpc() {
-  rpc?.destroy();
+  stopDiscordRpc();
 }
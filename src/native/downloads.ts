@@ -0,0 +1,335 @@
+import { randomUUID } from "node:crypto";
+import { existsSync, mkdirSync } from "node:fs";
+import { basename, extname, join } from "node:path";
+
+import {
+  BrowserWindow,
+  DownloadItem,
+  MessageBoxOptions,
+  Notification,
+  Session,
+  WebContents,
+  app,
+  dialog,
+  ipcMain,
+  shell,
+} from "electron";
+
+import { config } from "./config";
+import { getAppWindows } from "./popout";
+import { updateTrayMenu } from "./tray";
+
+// finished downloads kept in the history
+const MAX_RECENT_DOWNLOADS = 10;
+
+// minimum time between progress events for a download
+const PROGRESS_INTERVAL = 250;
+
+// sessions which already handle downloads
+const downloadSessions = new WeakSet<Session>();
+
+// notifications are kept until dismissed so their events still fire
+const notifications = new Set<Notification>();
+
+// URLs saved through "Save as…", which always ask where to save
+const saveAsRequests = new WeakMap<WebContents, Set<string>>();
+
+// downloads in progress by ID
+const activeDownloads = new Map<
+  string,
+  { item: DownloadItem; download: DesktopDownload }
+>();
+
+/**
+ * Get the folder downloads are saved to without asking
+ */
+export function getDownloadDirectory() {
+  return config.downloadDirectory || app.getPath("downloads");
+}
+
+/**
+ * Pick a path in a folder which doesn't overwrite an existing file
+ * @param dir Folder
+ * @param filename Suggested file name
+ */
+function getUniquePath(dir: string, filename: string) {
+  const extension = extname(filename);
+  const name = basename(filename, extension);
+
+  let path = join(dir, filename);
+  for (let i = 1; existsSync(path); i++) {
+    path = join(dir, `${name} (${i})${extension}`);
+  }
+
+  return path;
+}
+
+/**
+ * Tell every application window about a download
+ * @param download Download
+ */
+function broadcastDownload(download: DesktopDownload) {
+  getAppWindows().forEach((window) =>
+    window.webContents.send("downloadUpdated", download),
+  );
+}
+
+/**
+ * List downloads in progress followed by recent ones, newest first
+ */
+export function getDownloads() {
+  return [
+    ...[...activeDownloads.values()].map(({ download }) => download).reverse(),
+    ...config.recentDownloads,
+  ];
+}
+
+/**
+ * Find a download by ID
+ * @param id Download ID
+ */
+function findDownload(id: string) {
+  return getDownloads().find((download) => download.id === id);
+}
+
+/**
+ * Open a finished download with its default application
+ * @param id Download ID
+ */
+export async function openDownload(id: string) {
+  const download = findDownload(id);
+  if (download?.state !== "completed") return;
+
+  const error = await shell.openPath(download.path);
+  if (error) {
+    console.warn("[Downloads] Failed to open", download.path, error);
+  }
+}
+
+/**
+ * Ask before opening a download on behalf of the client
+ * @param download Download
+ * @param window Window the request came from
+ */
+async function confirmOpenDownload(
+  download: DesktopDownload,
+  window: BrowserWindow | null,
+) {
+  const options: MessageBoxOptions = {
+    type: "question",
+    title: "Open download",
+    message: `Open ${download.filename}?`,
+    detail: download.path,
+    buttons: ["Open", "Cancel"],
+    defaultId: 0,
+    cancelId: 1,
+  };
+
+  const { response } = window
+    ? await dialog.showMessageBox(window, options)
+    : await dialog.showMessageBox(options);
+
+  return response === 0;
+}
+
+/**
+ * Show a download in the file manager
+ * @param id Download ID
+ */
+export function showDownloadInFolder(id: string) {
+  const download = findDownload(id);
+  if (download?.path) {
+    shell.showItemInFolder(download.path);
+  }
+}
+
+/**
+ * Forget finished downloads, the files are kept
+ */
+export function clearDownloads() {
+  config.recentDownloads = [];
+  updateTrayMenu();
+}
+
+/**
+ * Notify the user that a download has finished
+ * @param download Download
+ */
+function notifyDownloadFinished(download: DesktopDownload) {
+  if (!Notification.isSupported()) return;
+
+  const notification = new Notification({
+    title: "Download complete",
+    body: download.filename,
+    silent: true,
+    // buttons are only shown on macOS
+    actions: [
+      { type: "button", text: "Open" },
+      { type: "button", text: "Show in folder" },
+    ],
+  });
+
+  notification.on("action", (_, index) =>
+    index === 0 ? openDownload(download.id) : showDownloadInFolder(download.id),
+  );
+
+  // other platforms show the file when the notification is clicked
+  notification.on("click", () => showDownloadInFolder(download.id));
+  notification.on("close", () => notifications.delete(notification));
+
+  notifications.add(notification);
+  notification.show();
+}
+
+/**
+ * Track a download from start to finish
+ * @param item Download item
+ */
+function trackDownload(item: DownloadItem) {
+  const download: DesktopDownload = {
+    id: randomUUID(),
+    filename: item.getFilename(),
+    path: item.getSavePath(),
+    url: item.getURL(),
+    state: "progressing",
+    receivedBytes: 0,
+    totalBytes: item.getTotalBytes(),
+    startTime: Date.now(),
+  };
+
+  activeDownloads.set(download.id, { item, download });
+  broadcastDownload(download);
+
+  let lastUpdate = 0;
+
+  item.on("updated", (_, state) => {
+    // the path is only known once chosen in the save dialog
+    download.path = item.getSavePath();
+    download.filename = download.path
+      ? basename(download.path)
+      : item.getFilename();
+    download.state = state === "interrupted" ? "interrupted" : "progressing";
+    download.receivedBytes = item.getReceivedBytes();
+    download.totalBytes = item.getTotalBytes();
+
+    const now = Date.now();
+    if (now - lastUpdate >= PROGRESS_INTERVAL) {
+      lastUpdate = now;
+      broadcastDownload(download);
+    }
+  });
+
+  item.once("done", (_, state) => {
+    activeDownloads.delete(download.id);
+
+    download.path = item.getSavePath();
+    download.filename = download.path
+      ? basename(download.path)
+      : download.filename;
+    download.state = state;
+    download.receivedBytes = item.getReceivedBytes();
+    broadcastDownload(download);
+
+    // cancelled save dialogs aren't worth remembering
+    if (state === "cancelled" && !download.receivedBytes) return;
+
+    config.recentDownloads = [download, ...config.recentDownloads].slice(
+      0,
+      MAX_RECENT_DOWNLOADS,
+    );
+
+    updateTrayMenu();
+
+    if (state === "completed") {
+      notifyDownloadFinished(download);
+    } else {
+      console.warn("[Downloads] Download", state, download.url);
+    }
+  });
+}
+
+/**
+ * Download a URL, asking where to save it even if downloads
+ * are normally saved without asking
+ * @param contents Web contents to download with
+ * @param url URL
+ */
+export function downloadWithSaveDialog(contents: WebContents, url: string) {
+  const urls = saveAsRequests.get(contents) ?? new Set<string>();
+  urls.add(url);
+  saveAsRequests.set(contents, urls);
+
+  contents.downloadURL(url);
+}
+
+/**
+ * Check whether a download was started through "Save as…"
+ * @param contents Web contents the download started in
+ * @param item Download item
+ */
+function takeSaveAsRequest(contents: WebContents, item: DownloadItem) {
+  const urls = contents && saveAsRequests.get(contents);
+  if (!urls) return false;
+
+  // the download may have been redirected since it was requested
+  return [item.getURL(), ...item.getURLChain()].some((url) => urls.delete(url));
+}
+
+/**
+ * Save downloads from a session to the configured folder
+ * or ask where to save them, and track their progress
+ * @param session Session
+ */
+export function attachDownloads(session: Session) {
+  if (downloadSessions.has(session)) return;
+  downloadSessions.add(session);
+
+  session.on("will-download", (_, item, contents) => {
+    let dir = getDownloadDirectory();
+
+    try {
+      mkdirSync(dir, { recursive: true });
+    } catch (err) {
+      console.error("[Downloads] Cannot use download folder:", dir, err);
+      dir = app.getPath("downloads");
+    }
+
+    if (takeSaveAsRequest(contents, item) || config.askDownloadLocation) {
+      // the save dialog opens in the download folder
+      item.setSaveDialogOptions({
+        defaultPath: join(dir, item.getFilename()),
+      });
+    } else {
+      item.setSavePath(getUniquePath(dir, item.getFilename()));
+    }
+
+    trackDownload(item);
+  });
+}
+
+ipcMain.handle("getDownloads", () => getDownloads());
+
+ipcMain.handle("cancelDownload", (_, id: string) =>
+  activeDownloads.get(id)?.item.cancel(),
+);
+
+// the client may only open files once the user agrees
+ipcMain.handle("openDownload", async (event, id: string) => {
+  const download = findDownload(id);
+  if (download?.state !== "completed") return;
+
+  if (
+    await confirmOpenDownload(
+      download,
+      BrowserWindow.fromWebContents(event.sender),
+    )
+  ) {
+    await openDownload(id);
+  }
+});
+
+ipcMain.handle("showDownloadInFolder", (_, id: string) =>
+  showDownloadInFolder(id),
+);
+
+ipcMain.handle("clearDownloads", () => clearDownloads());
@@ -0,0 +1,209 @@
+import { domainToUnicode } from "node:url";
+
+import { BrowserWindow, MessageBoxOptions, dialog, shell } from "electron";
+
+import { config } from "./config";
+import { isAllowedOrigin } from "./instances";
+
+// schemes handed to the system
+const EXTERNAL_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+// invisible and direction-changing characters which can disguise a URL
+const HIDDEN_CHARACTERS =
+  /[\u200b-\u200f\u202a-\u202e\u2060-\u2064\u2066-\u2069\ufeff]/;
+
+// alphabets with letters that look like Latin ones
+const SCRIPTS = ["Latin", "Cyrillic", "Greek", "Armenian", "Cherokee"].map(
+  (script) => ({ script, pattern: new RegExp(`\\p{Script=${script}}`, "u") }),
+);
+
+/**
+ * Show a character by its code point
+ * @param char Character
+ */
+function formatCodePoint(char: string) {
+  return `U+${char.codePointAt(0).toString(16).toUpperCase().padStart(4, "0")}`;
+}
+
+/**
+ * Mark every non-ASCII character in a hostname so lookalikes stand out
+ * @param hostname Decoded hostname
+ */
+function markUnusualCharacters(hostname: string) {
+  return hostname.replace(
+    /[^\x20-\x7e]/gu,
+    (char) => `[${char} ${formatCodePoint(char)}]`,
+  );
+}
+
+/**
+ * List the alphabets used by letters in a domain label
+ * @param label Decoded label
+ */
+function getScripts(label: string) {
+  const scripts = new Set<string>();
+
+  for (const char of label) {
+    const match = SCRIPTS.find(({ pattern }) => pattern.test(char));
+    if (match) scripts.add(match.script);
+  }
+
+  return scripts;
+}
+
+/**
+ * Decode percent-encoding, leaving it if malformed
+ * @param href URL
+ */
+function decodeHref(href: string) {
+  try {
+    return decodeURI(href);
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Decode a URL for display with hidden characters made visible
+ * @param url URL
+ */
+function decodeForDisplay(url: URL) {
+  return decodeHref(
+    url.href.replace(url.hostname, domainToUnicode(url.hostname)),
+  ).replace(
+    new RegExp(HIDDEN_CHARACTERS, "g"),
+    (char) => `[${formatCodePoint(char)}]`,
+  );
+}
+
+/**
+ * Explain anything about a link which could hide where it goes
+ * @param url URL
+ * @returns Warnings, empty if nothing looks suspicious
+ */
+export function getLinkWarnings(url: URL) {
+  const warnings: string[] = [];
+  const hostname = domainToUnicode(url.hostname);
+
+  if (url.hostname.split(".").some((label) => label.startsWith("xn--"))) {
+    warnings.push(
+      `The address uses international characters. It is shown as ${markUnusualCharacters(hostname)} but is really ${url.hostname}.`,
+    );
+  }
+
+  if (hostname.split(".").some((label) => getScripts(label).size > 1)) {
+    warnings.push(
+      "The address mixes letters from different alphabets, which is often used to imitate other sites.",
+    );
+  }
+
+  if (url.username || url.password) {
+    warnings.push(
+      `The text before "@" is not part of the address, this link opens ${url.hostname}.`,
+    );
+  }
+
+  if (HIDDEN_CHARACTERS.test(decodeHref(url.href))) {
+    warnings.push("The link contains invisible or text direction characters.");
+  }
+
+  return warnings;
+}
+
+/**
+ * Check whether a link opens without asking
+ * @param url URL
+ */
+export function isTrustedLink(url: URL) {
+  // only web pages are confirmed
+  if (url.protocol !== "http:" && url.protocol !== "https:") return true;
+
+  return (
+    isAllowedOrigin(url.origin) ||
+    config.trustedDomains.some(
+      (domain) =>
+        url.hostname === domain || url.hostname.endsWith(`.${domain}`),
+    )
+  );
+}
+
+/**
+ * Open links from this domain without asking again
+ * @param hostname Hostname
+ */
+export function trustDomain(hostname: string) {
+  const domain = hostname.toLowerCase();
+  if (!config.trustedDomains.includes(domain)) {
+    config.trustedDomains = [...config.trustedDomains, domain];
+  }
+}
+
+/**
+ * Ask before opening a link in the browser
+ * @param url URL
+ * @param window Window the link was opened from
+ * @returns Whether the user chose to open it
+ */
+async function confirmLink(url: URL, window?: BrowserWindow | null) {
+  const warnings = getLinkWarnings(url);
+  const options: MessageBoxOptions = {
+    type: warnings.length ? "warning" : "question",
+    title: "Open external link",
+    message: warnings.length
+      ? "This link may not go where it appears to"
+      : "Open this link in your browser?",
+    detail: [decodeForDisplay(url), ...warnings].join("\n\n"),
+    buttons: ["Open link", "Cancel"],
+    defaultId: warnings.length ? 1 : 0,
+    cancelId: 1,
+    checkboxLabel: `Always trust ${url.hostname}`,
+  };
+
+  const { response, checkboxChecked } = window
+    ? await dialog.showMessageBox(window, options)
+    : await dialog.showMessageBox(options);
+
+  if (response !== 0) return false;
+  if (checkboxChecked) trustDomain(url.hostname);
+
+  return true;
+}
+
+/**
+ * Open a link in the system browser or mail client,
+ * confirming it first unless disabled or trusted
+ * @param link Link
+ * @param window Window the link was opened from
+ * @returns Whether the link was opened
+ */
+export async function openExternalLink(
+  link: string,
+  window?: BrowserWindow | null,
+) {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return false;
+  }
+
+  if (!EXTERNAL_PROTOCOLS.includes(url.protocol)) return false;
+
+  if (
+    config.confirmExternalLinks &&
+    !isTrustedLink(url) &&
+    !(await confirmLink(url, window))
+  ) {
+    return false;
+  }
+
+  try {
+    await shell.openExternal(url.href);
+  } catch (err) {
+    // e.g. no application is registered for the protocol
+    console.error("[Links] Failed to open link:", err);
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,114 @@
+import { BrowserWindow, WebContents, ipcMain } from "electron";
+
+type StopFindAction = Parameters<WebContents["stopFindInPage"]>[0];
+
+// last search in each window, follow-up requests continue the same session
+const queries = new WeakMap<
+  WebContents,
+  { text: string; matchCase: boolean }
+>();
+
+/**
+ * Search the page for text, highlighting the next or previous match
+ * @param contents Web contents to search
+ * @param text Text to search for, stops searching if empty
+ * @param options Search direction and case sensitivity
+ */
+export function findInPage(
+  contents: WebContents,
+  text: string,
+  options: DesktopFindOptions = {},
+) {
+  if (!text) {
+    stopFindInPage(contents);
+    return;
+  }
+
+  const matchCase = options.matchCase ?? false;
+  const previous = queries.get(contents);
+  const isNewSearch =
+    previous?.text !== text || previous?.matchCase !== matchCase;
+
+  queries.set(contents, { text, matchCase });
+  contents.findInPage(text, {
+    forward: options.forward ?? true,
+    matchCase,
+    findNext: isNewSearch,
+  });
+}
+
+/**
+ * Move to the next or previous match of the last search,
+ * or ask the client to open its find bar if there was none
+ * @param contents Web contents to search
+ * @param forward Whether to move forward
+ */
+export function findAgain(contents: WebContents, forward: boolean) {
+  const previous = queries.get(contents);
+  if (previous) {
+    findInPage(contents, previous.text, {
+      forward,
+      matchCase: previous.matchCase,
+    });
+  } else {
+    requestFind(contents);
+  }
+}
+
+/**
+ * Stop searching and clear the highlighted matches
+ * @param contents Web contents being searched
+ * @param action What to do with the active match
+ */
+export function stopFindInPage(
+  contents: WebContents,
+  action: StopFindAction = "clearSelection",
+) {
+  queries.delete(contents);
+  contents.stopFindInPage(action);
+}
+
+/**
+ * Ask the client to open its find bar
+ * @param contents Web contents to open it in
+ */
+export function requestFind(contents: WebContents) {
+  contents.send("findRequested");
+}
+
+/**
+ * Forward search results to the client
+ * @param window Application window
+ */
+export function attachFindInPage(window: BrowserWindow) {
+  window.webContents.on("found-in-page", (_, result) =>
+    window.webContents.send("findResult", {
+      matches: result.matches,
+      activeMatch: result.activeMatchOrdinal,
+      finalUpdate: result.finalUpdate,
+    } as DesktopFindResult),
+  );
+
+  // matches belong to the page they were found in
+  window.webContents.on("did-navigate", () =>
+    queries.delete(window.webContents),
+  );
+}
+
+ipcMain.on(
+  "findInPage",
+  (event, text: string, options: DesktopFindOptions = {}) =>
+    findInPage(event.sender, String(text ?? ""), {
+      forward: options.forward !== false,
+      matchCase: options.matchCase === true,
+    }),
+);
+
+ipcMain.on("stopFindInPage", (event, action: StopFindAction) =>
+  stopFindInPage(
+    event.sender,
+    action === "keepSelection" || action === "activateSelection"
+      ? action
+      : "clearSelection",
+  ),
+);
@@ -0,0 +1,327 @@
+import { join } from "node:path";
+
+import { BrowserWindow, ipcMain, net } from "electron";
+
+import { config } from "./config";
+import { renderInstancePicker } from "./pages/instancePicker";
+import { getActiveProfile, getProfileSession } from "./profiles";
+import { selectBuildUrl, switchServer } from "./window";
+
+// API root of the official instance
+const OFFICIAL_API_URL = "https://api.revolt.chat";
+
+// origins the official instance uses until its configuration is fetched
+const OFFICIAL_ORIGINS = [
+  "https://stoat.chat",
+  "https://beta.revolt.chat",
+  "https://revolt.chat",
+  "https://api.revolt.chat",
+  "https://cdn.stoatusercontent.com",
+  "https://autumn.stoatusercontent.com",
+  "https://cdn.revolt.chat",
+];
+
+// where the official web client is served
+const OFFICIAL_CLIENT_URLS = [
+  "https://stoat.chat/app/",
+  "https://beta.revolt.chat/",
+  "https://app.revolt.chat/",
+];
+
+// services under `features` whose URLs the client navigates to:
+// file server, link proxy and voice
+const SERVICE_KEYS = ["autumn", "january", "voso", "livekit"];
+
+// origins fetched for the official instance during this session
+let officialOrigins: string[] = [];
+
+// open first-run picker and what to do once an instance is chosen
+let picker: BrowserWindow | null = null;
+let onPickerDone: (() => void) | null = null;
+
+/**
+ * Get the self-hosted instance in use, null for the official instance
+ */
+export function getActiveInstance() {
+  return (
+    config.instances.find((instance) => instance.url === config.server) ?? null
+  );
+}
+
+/**
+ * Add the origin of an http(s) URL
+ * @param value Possible URL
+ * @param origins Set to add the origin to
+ */
+function addOrigin(value: unknown, origins: Set<string>) {
+  if (typeof value !== "string") return;
+
+  try {
+    const url = new URL(value);
+    if (url.protocol === "https:" || url.protocol === "http:") {
+      origins.add(url.origin);
+    }
+  } catch {
+    // not a URL
+  }
+}
+
+/**
+ * Collect the origins of the services an instance advertises,
+ * that is its file server, link proxy and voice servers
+ * @param features `features` of the instance configuration
+ * @param origins Set to add origins to
+ */
+function collectOrigins(features: unknown, origins: Set<string>) {
+  if (typeof features !== "object" || features === null) return;
+
+  for (const key of SERVICE_KEYS) {
+    const service = (features as Record<string, unknown>)[key];
+    if (typeof service !== "object" || service === null) continue;
+
+    const { url, nodes } = service as { url?: unknown; nodes?: unknown };
+    addOrigin(url, origins);
+
+    // LiveKit lists each voice node separately
+    if (Array.isArray(nodes)) {
+      nodes.forEach((node) => addOrigin(node?.public_url, origins));
+    }
+  }
+}
+
+/**
+ * Fetch an API root, returning null if it isn't an instance configuration
+ * @param url API root
+ */
+async function fetchApiRoot(url: URL) {
+  try {
+    const response = await net.fetch(url.toString(), {
+      headers: { Accept: "application/json" },
+    });
+
+    const data = response.ok ? await response.json() : null;
+    return typeof data?.features === "object" ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find an instance's API from the URL of its client or API
+ * and the origins its client needs to navigate to
+ * @param address URL entered by the user
+ */
+export async function fetchInstanceConfig(address: string) {
+  const url = new URL(
+    /^https?:\/\//i.test(address) ? address : `https://${address}`,
+  );
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error("Instance URL must use http or https");
+  }
+
+  // self-hosted instances usually serve the API at /api next to the client
+  const candidates = [
+    new URL("api", url.href.endsWith("/") ? url : `${url.href}/`),
+    url,
+  ];
+
+  for (const apiUrl of candidates) {
+    const data = await fetchApiRoot(apiUrl);
+    if (!data) continue;
+
+    // entering the API directly loads the client it advertises
+    const clientUrl =
+      apiUrl === url && typeof data.app === "string" ? data.app : url.href;
+
+    const origins = new Set([new URL(clientUrl).origin, apiUrl.origin]);
+    addOrigin(data.app, origins);
+    collectOrigins(data.features, origins);
+
+    return {
+      clientUrl,
+      apiUrl: apiUrl.href,
+      origins: [...origins],
+    };
+  }
+
+  throw new Error(`No instance found at ${url.href}`);
+}
+
+/**
+ * Save a self-hosted instance, replacing any saved with the same client URL
+ * @param address URL of the instance's client or API
+ * @param name Display name, defaults to the host
+ */
+export async function addInstance(address: string, name?: string) {
+  const { clientUrl, apiUrl, origins } = await fetchInstanceConfig(address);
+  const instance: DesktopInstance = {
+    name: name?.trim() || new URL(clientUrl).host,
+    url: clientUrl,
+    apiUrl,
+    origins,
+  };
+
+  config.instances = [
+    ...config.instances.filter((existing) => existing.url !== instance.url),
+    instance,
+  ];
+
+  return instance;
+}
+
+/**
+ * Forget a saved instance
+ * @param url Client URL of the instance
+ */
+export function removeInstance(url: string) {
+  if (url === config.server) {
+    throw new Error("Cannot remove the instance in use");
+  }
+
+  config.instances = config.instances.filter(
+    (instance) => instance.url !== url,
+  );
+}
+
+/**
+ * Switch to another instance, an empty URL selects the official instance
+ * @param url Client URL of a saved instance
+ */
+export function selectInstance(url: string) {
+  if (url && !config.instances.some((instance) => instance.url === url)) {
+    throw new Error(`Unknown instance: ${url}`);
+  }
+
+  config.server = url;
+
+  if (picker) {
+    finishPicker();
+  } else {
+    switchServer();
+    refreshInstanceOrigins();
+  }
+}
+
+/**
+ * Update the allowed origins of the instance in use from its configuration
+ */
+export async function refreshInstanceOrigins() {
+  const instance = getActiveInstance();
+
+  try {
+    const { origins } = await fetchInstanceConfig(
+      instance?.apiUrl ?? OFFICIAL_API_URL,
+    );
+
+    if (instance) {
+      config.instances = config.instances.map((existing) =>
+        existing.url === instance.url
+          ? {
+              ...existing,
+              // the client's own origin is never advertised by the API
+              origins: [...new Set([new URL(existing.url).origin, ...origins])],
+            }
+          : existing,
+      );
+    } else {
+      officialOrigins = origins;
+    }
+  } catch (err) {
+    console.warn("[Instances] Failed to refresh allowed origins:", err);
+  }
+}
+
+/**
+ * Check whether windows may navigate to an origin of the instance in use
+ * @param origin Origin
+ */
+export function isAllowedOrigin(origin: string) {
+  const instance = getActiveInstance();
+  const origins = instance
+    ? instance.origins
+    : [...OFFICIAL_ORIGINS, ...officialOrigins];
+
+  return origins.includes(origin);
+}
+
+/**
+ * List the URLs the web client of the instance in use is served from
+ */
+export function getClientUrls() {
+  const instance = getActiveInstance();
+  return (instance ? [instance.url] : OFFICIAL_CLIENT_URLS).map(
+    (url) => new URL(url),
+  );
+}
+
+/**
+ * Close the picker once the app has taken over
+ * @param closeWindow Whether the picker still has to be closed
+ */
+function finishPicker(closeWindow = true) {
+  const window = picker;
+  const done = onPickerDone;
+
+  picker = null;
+  onPickerDone = null;
+  config.firstLaunch = false;
+
+  // open the app first so closing the picker doesn't quit it
+  selectBuildUrl();
+  done?.();
+  if (closeWindow) window?.close();
+}
+
+/**
+ * Ask which instance to use before the app first opens
+ * @param onDone Open the app, called once an instance is chosen
+ */
+export function showInstancePicker(onDone: () => void) {
+  onPickerDone = onDone;
+  picker = new BrowserWindow({
+    width: 480,
+    height: 600,
+    resizable: false,
+    backgroundColor: "#191919",
+    title: "Choose an instance",
+    webPreferences: {
+      // relative to `.vite/build`
+      preload: join(__dirname, "preload.js"),
+      session: getProfileSession(getActiveProfile().id),
+      contextIsolation: true,
+      nodeIntegration: false,
+    },
+  });
+
+  picker.setMenu(null);
+
+  // closing the picker keeps the official instance
+  picker.on("close", () => {
+    if (picker) finishPicker(false);
+  });
+
+  // open the app with the official instance if the picker can't be shown
+  picker
+    .loadURL(
+      `data:text/html;charset=utf-8,${encodeURIComponent(
+        renderInstancePicker(config.instances),
+      )}`,
+    )
+    .catch((err) => {
+      console.error("[Instances] Failed to show the instance picker:", err);
+      if (picker) finishPicker();
+    });
+}
+
+ipcMain.handle("getInstances", () => ({
+  instances: config.instances,
+  server: config.server,
+}));
+
+ipcMain.handle("addInstance", (_, url: string, name?: string) =>
+  addInstance(url, name),
+);
+
+ipcMain.handle("removeInstance", (_, url: string) => removeInstance(url));
+
+ipcMain.handle("selectInstance", (_, url: string) => selectInstance(url));
@@ -0,0 +1,192 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, test } from "node:test";
+
+import { createStaticHandler } from "./localProtocol";
+import { createWebManifest } from "./webManifest";
+
+const INDEX = "<!doctype html><title>Stoat</title>";
+const SCRIPT = "console.log('stoat');";
+
+let root: string;
+
+/**
+ * Request a path from a handler
+ * @param handler Handler to call
+ * @param path URL path
+ * @param init Request options
+ */
+function get(
+  handler: ReturnType<typeof createStaticHandler>,
+  path: string,
+  init?: RequestInit,
+) {
+  return handler(new Request(`stoat://-${path}`, init));
+}
+
+before(async () => {
+  root = await mkdtemp(join(tmpdir(), "stoat-protocol-"));
+
+  await mkdir(join(root, "assets"));
+  await writeFile(join(root, "index.html"), INDEX);
+  await writeFile(join(root, "assets", "index-abc123.js"), SCRIPT);
+  await writeFile(join(root, "app.wasm"), Buffer.from([0, 97, 115, 109]));
+  await writeFile(join(root, "manifest.webmanifest"), "{}");
+});
+
+after(() => rm(root, { recursive: true, force: true }));
+
+describe("createStaticHandler", () => {
+  test("serves files with their content type", async () => {
+    const handler = createStaticHandler(root);
+
+    const script = await get(handler, "/assets/index-abc123.js");
+    assert.equal(script.status, 200);
+    assert.equal(await script.text(), SCRIPT);
+    assert.match(script.headers.get("Content-Type"), /^text\/javascript/);
+    assert.match(script.headers.get("Cache-Control"), /immutable/);
+
+    const wasm = await get(handler, "/app.wasm");
+    assert.equal(wasm.headers.get("Content-Type"), "application/wasm");
+
+    const manifest = await get(handler, "/manifest.webmanifest");
+    assert.match(
+      manifest.headers.get("Content-Type"),
+      /^application\/manifest\+json/,
+    );
+  });
+
+  test("falls back to index.html for client routes", async () => {
+    const handler = createStaticHandler(root);
+
+    for (const path of ["/", "/server/123/channel/456"]) {
+      const response = await get(handler, path);
+      assert.equal(response.status, 200);
+      assert.equal(await response.text(), INDEX);
+      assert.equal(response.headers.get("Cache-Control"), "no-cache");
+    }
+  });
+
+  test("returns 404 for missing assets", async () => {
+    const handler = createStaticHandler(root);
+
+    assert.equal((await get(handler, "/assets/missing.js")).status, 404);
+  });
+
+  test("returns 404 for paths outside the root", async () => {
+    const handler = createStaticHandler(join(root, "assets"));
+
+    for (const path of ["/..%2Findex.html", "/%2e%2e%2f%2e%2e%2fetc/passwd"]) {
+      assert.equal((await get(handler, path)).status, 404);
+    }
+  });
+
+  test("answers conditional requests with 304", async () => {
+    const handler = createStaticHandler(root);
+
+    const first = await get(handler, "/assets/index-abc123.js");
+    const etag = first.headers.get("ETag");
+    assert.ok(etag);
+
+    const cached = await get(handler, "/assets/index-abc123.js", {
+      headers: { "If-None-Match": etag },
+    });
+
+    assert.equal(cached.status, 304);
+    assert.equal(await cached.text(), "");
+  });
+
+  test("answers HEAD without a body", async () => {
+    const handler = createStaticHandler(root);
+    const response = await get(handler, "/index.html", { method: "HEAD" });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("Content-Length"), String(INDEX.length));
+    assert.equal(await response.text(), "");
+  });
+
+  test("rejects other methods", async () => {
+    const handler = createStaticHandler(root);
+    const response = await get(handler, "/index.html", { method: "POST" });
+
+    assert.equal(response.status, 405);
+  });
+
+  test("serves byte ranges", async () => {
+    const handler = createStaticHandler(root);
+
+    const partial = await get(handler, "/assets/index-abc123.js", {
+      headers: { Range: "bytes=0-6" },
+    });
+
+    assert.equal(partial.status, 206);
+    assert.equal(await partial.text(), SCRIPT.slice(0, 7));
+    assert.equal(
+      partial.headers.get("Content-Range"),
+      `bytes 0-6/${SCRIPT.length}`,
+    );
+
+    const suffix = await get(handler, "/assets/index-abc123.js", {
+      headers: { Range: "bytes=-3" },
+    });
+
+    assert.equal(suffix.status, 206);
+    assert.equal(await suffix.text(), SCRIPT.slice(-3));
+  });
+
+  test("returns 416 for unsatisfiable ranges", async () => {
+    const handler = createStaticHandler(root);
+    const response = await get(handler, "/assets/index-abc123.js", {
+      headers: { Range: `bytes=${SCRIPT.length}-` },
+    });
+
+    assert.equal(response.status, 416);
+    assert.equal(
+      response.headers.get("Content-Range"),
+      `bytes */${SCRIPT.length}`,
+    );
+  });
+
+  describe("with a manifest", () => {
+    test("only serves files listed in the manifest", async () => {
+      const manifest = createWebManifest(root);
+      const handler = createStaticHandler(root, { manifest });
+
+      await writeFile(join(root, "unlisted.js"), SCRIPT);
+
+      try {
+        assert.equal((await get(handler, "/index.html")).status, 200);
+        assert.equal((await get(handler, "/unlisted.js")).status, 404);
+      } finally {
+        await rm(join(root, "unlisted.js"));
+      }
+    });
+
+    test("refuses files which were modified", async () => {
+      const manifest = createWebManifest(root);
+      const invalid: string[] = [];
+      const handler = createStaticHandler(root, {
+        manifest,
+        onInvalidFile: (key) => invalid.push(key),
+      });
+
+      const path = join(root, "assets", "index-abc123.js");
+      assert.equal((await get(handler, "/assets/index-abc123.js")).status, 200);
+
+      // same size, so only the hash can tell
+      const tampered = SCRIPT.replace("stoat", "sto4t");
+      await writeFile(path, tampered);
+      await utimes(path, new Date(), new Date(Date.now() + 1000));
+
+      try {
+        const response = await get(handler, "/assets/index-abc123.js");
+        assert.equal(response.status, 403);
+        assert.deepEqual(invalid, ["assets/index-abc123.js"]);
+      } finally {
+        await writeFile(path, SCRIPT);
+      }
+    });
+  });
+});
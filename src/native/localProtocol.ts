@@ -0,0 +1,243 @@
+import { readFile, stat } from "node:fs/promises";
+import { extname, isAbsolute, join, relative, sep } from "node:path";
+
+import {
+  type WebFile,
+  type WebManifest,
+  hashContents,
+  verifyWebFile,
+} from "./webManifest";
+
+/**
+ * Content types by file extension, anything else is served as binary
+ */
+const MIME_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".mjs": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".map": "application/json; charset=utf-8",
+  ".webmanifest": "application/manifest+json; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
+  ".xml": "application/xml; charset=utf-8",
+  ".wasm": "application/wasm",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".ico": "image/x-icon",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".ttf": "font/ttf",
+  ".otf": "font/otf",
+  ".mp3": "audio/mpeg",
+  ".ogg": "audio/ogg",
+  ".wav": "audio/wav",
+  ".webm": "video/webm",
+  ".mp4": "video/mp4",
+};
+
+// page served for client-side routes
+const INDEX_FILE = "index.html";
+
+// Vite puts content-hashed build output here
+const IMMUTABLE_DIR = "assets/";
+
+type StaticHandlerOptions = {
+  /**
+   * Only files listed in the manifest with matching contents are served
+   */
+  manifest?: WebManifest | null;
+
+  /**
+   * Called when a file doesn't match the manifest
+   */
+  onInvalidFile?: (key: string) => void;
+};
+
+/**
+ * Resolve a request path to a key relative to the root
+ * @param root Directory being served
+ * @param pathname URL path
+ * @returns Key using forward slashes, or null if it escapes the root
+ */
+function resolveKey(root: string, pathname: string) {
+  // tolerate a leading "-" segment, as in stoat://-/-/path
+  const path = pathname.replace(/^\/-(?=\/|$)/, "");
+  const relativePath = relative(root, join(root, path));
+
+  if (relativePath.startsWith("..") || isAbsolute(relativePath)) {
+    return null;
+  }
+
+  return relativePath.split(sep).join("/");
+}
+
+/**
+ * Parse a single byte range
+ * @param header Range header
+ * @param size File size
+ * @returns Inclusive byte range, null if unsatisfiable or undefined to serve the whole file
+ */
+function parseRange(
+  header: string,
+  size: number,
+): { start: number; end: number } | null | undefined {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+
+  // multiple or malformed ranges may be ignored
+  if (!match || (!match[1] && !match[2])) return undefined;
+
+  let start: number;
+  let end: number;
+
+  if (!match[1]) {
+    // suffix range, the last n bytes
+    start = Math.max(size - Number(match[2]), 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+
+  if (start > end || start >= size) return null;
+  return { start, end };
+}
+
+/**
+ * Read a file from the served directory
+ * @param root Directory being served
+ * @param key Path relative to the root
+ * @param manifest Manifest to check the file against
+ * @returns File contents and metadata, null if it doesn't exist
+ */
+async function readServedFile(
+  root: string,
+  key: string,
+  manifest: WebManifest | null,
+): Promise<WebFile | null> {
+  if (manifest && !manifest.files[key]) return null;
+
+  const path = join(root, ...key.split("/"));
+  try {
+    const stats = await stat(path);
+    if (!stats.isFile()) return null;
+    return { data: await readFile(path), stats };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a handler serving a single-page app from a directory
+ *
+ * Unknown paths which look like client routes fall back to `index.html`,
+ * anything else which doesn't exist is a 404.
+ * @param root Directory to serve
+ * @param options Integrity checking
+ */
+export function createStaticHandler(
+  root: string,
+  { manifest = null, onInvalidFile }: StaticHandlerOptions = {},
+) {
+  return async (request: Request): Promise<Response> => {
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      return new Response("Method Not Allowed", {
+        status: 405,
+        headers: { Allow: "GET, HEAD" },
+      });
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(request.url).pathname);
+    } catch {
+      return new Response("Bad Request", { status: 400 });
+    }
+
+    let key = resolveKey(root, pathname);
+    if (key === null) {
+      console.error("[Protocol] Blocked access outside web root:", pathname);
+      return new Response("Not Found", { status: 404 });
+    }
+
+    if (key === "") key = INDEX_FILE;
+
+    let file = await readServedFile(root, key, manifest);
+
+    // files listed in the manifest must exist
+    if (!file && manifest?.files[key]) {
+      onInvalidFile?.(key);
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    // client-side routes have no extension, real files always do
+    if (!file && !extname(key)) {
+      key = INDEX_FILE;
+      file = await readServedFile(root, key, manifest);
+    }
+
+    if (!file) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    // only hashed again if the file changed since it was verified
+    if (
+      manifest &&
+      !(await verifyWebFile(manifest, key, join(root, ...key.split("/")), file))
+    ) {
+      onInvalidFile?.(key);
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const { data } = file;
+
+    const etag = `"${manifest?.files[key].hash ?? hashContents(data)}"`;
+    const headers = new Headers({
+      "Content-Type":
+        MIME_TYPES[extname(key).toLowerCase()] ?? "application/octet-stream",
+      "Cache-Control": key.startsWith(IMMUTABLE_DIR)
+        ? "public, max-age=31536000, immutable"
+        : "no-cache",
+      "Accept-Ranges": "bytes",
+      ETag: etag,
+    });
+
+    if (request.headers.get("If-None-Match") === etag) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    let status = 200;
+    let body = data;
+
+    const rangeHeader = request.headers.get("Range");
+    if (rangeHeader) {
+      const range = parseRange(rangeHeader, data.length);
+
+      if (range === null) {
+        headers.set("Content-Range", `bytes */${data.length}`);
+        return new Response(null, { status: 416, headers });
+      }
+
+      if (range) {
+        status = 206;
+        body = data.subarray(range.start, range.end + 1);
+        headers.set(
+          "Content-Range",
+          `bytes ${range.start}-${range.end}/${data.length}`,
+        );
+      }
+    }
+
+    headers.set("Content-Length", String(body.length));
+
+    return new Response(request.method === "HEAD" ? null : body, {
+      status,
+      headers,
+    });
+  };
+}
@@ -0,0 +1,63 @@
+import { escapeHtml, renderPage } from "./page";
+
+/**
+ * Render the first-run page for choosing an instance
+ * @param instances Saved self-hosted instances
+ */
+export function renderInstancePicker(instances: DesktopInstance[]) {
+  const saved = instances
+    .map(
+      (instance) => `
+        <button class="instance" data-url="${escapeHtml(instance.url)}">
+          <strong>${escapeHtml(instance.name)}</strong>
+          <span>${escapeHtml(instance.url)}</span>
+        </button>`,
+    )
+    .join("");
+
+  return renderPage(
+    "Choose an instance",
+    `
+    <h1>Welcome to Stoat</h1>
+    <p>Choose where your account lives. You can change this later in settings.</p>
+
+    <button class="instance" data-url="">
+      <strong>Stoat</strong>
+      <span>stoat.chat</span>
+    </button>
+    ${saved}
+
+    <form id="add">
+      <label for="address">Self-hosted instance</label>
+      <input id="address" placeholder="chat.example.com" autocomplete="url" required />
+      <button type="submit">Connect</button>
+      <p id="error" role="alert"></p>
+    </form>`,
+    `
+    const error = document.getElementById("error");
+
+    document.querySelectorAll("[data-url]").forEach((button) =>
+      button.addEventListener("click", () =>
+        window.instances.select(button.dataset.url),
+      ),
+    );
+
+    document.getElementById("add").addEventListener("submit", async (event) => {
+      event.preventDefault();
+      error.textContent = "";
+
+      try {
+        const instance = await window.instances.add(
+          document.getElementById("address").value,
+        );
+
+        await window.instances.select(instance.url);
+      } catch (err) {
+        error.textContent = String(err.message ?? err).replace(
+          /^Error invoking remote method '[^']+': (Error: )?/,
+          "",
+        );
+      }
+    });`,
+  );
+}
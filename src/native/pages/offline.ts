@@ -0,0 +1,57 @@
+import { escapeHtml, renderCountdown, renderPage } from "./page";
+
+/**
+ * Why the client couldn't be reached and what the offline page offers
+ */
+export type OfflinePageOptions = {
+  reason: string;
+  detail: string;
+
+  /**
+   * Seconds until connecting is retried
+   */
+  retryIn: number;
+
+  /**
+   * Whether to offer the local web assets instead
+   */
+  canLoadLocalClient: boolean;
+};
+
+/**
+ * Render the page shown when the client can't be reached
+ * @param options Why it couldn't be reached
+ */
+export function renderOfflinePage({
+  reason,
+  detail,
+  retryIn,
+  canLoadLocalClient,
+}: OfflinePageOptions) {
+  return renderPage(
+    "Can't connect to Stoat",
+    `
+    <h1>Can't connect to Stoat</h1>
+    <p>${escapeHtml(reason)}</p>
+    <p><small>${escapeHtml(detail)}</small></p>
+    <p id="countdown"></p>
+
+    <div class="actions">
+      <button id="retry">Retry now</button>
+      ${
+        canLoadLocalClient
+          ? `<button id="local">Use the bundled client</button>`
+          : ""
+      }
+    </div>`,
+    `
+    ${renderCountdown(retryIn, "Retrying in")}
+
+    document
+      .getElementById("retry")
+      .addEventListener("click", () => window.recovery.reload());
+    document
+      .getElementById("local")
+      ?.addEventListener("click", () => window.recovery.loadLocalClient());`,
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * Escape text for use in HTML content or attributes
+ * @param text Text
+ */
+export function escapeHtml(text: string) {
+  return text.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&#39;",
+      })[char],
+  );
+}
+
+/**
+ * Script counting down in the element with ID `countdown`
+ * @param seconds Seconds to count down from, nothing is shown if null
+ * @param label Text before the remaining time
+ */
+export function renderCountdown(seconds: number | null, label: string) {
+  return `
+    let remaining = ${seconds ?? "null"};
+    const countdown = document.getElementById("countdown");
+
+    const tick = () => {
+      if (remaining === null) return;
+      countdown.textContent = ${JSON.stringify(label)} + " " + remaining + "s…";
+      remaining = Math.max(remaining - 1, 0);
+    };
+
+    tick();
+    setInterval(tick, 1000);`;
+}
+
+/**
+ * Wrap content in a page styled like the rest of the app
+ * @param title Page title
+ * @param body Page content
+ * @param script Script run once the page has loaded
+ */
+export function renderPage(title: string, body: string, script = "") {
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="UTF-8" />
+    <meta
+      http-equiv="Content-Security-Policy"
+      content="default-src 'none'; img-src data:; style-src 'unsafe-inline'; script-src 'unsafe-inline'"
+    />
+    <title>${escapeHtml(title)}</title>
+    <style>
+      body {
+        margin: 0;
+        padding: 32px;
+        font-family: system-ui, sans-serif;
+        background: #191919;
+        color: #e6e6e6;
+      }
+
+      h1 {
+        margin-top: 0;
+        font-size: 1.5em;
+      }
+
+      p {
+        color: #a8a8a8;
+      }
+
+      button,
+      input {
+        font: inherit;
+        color: inherit;
+        border-radius: 8px;
+        border: 1px solid #333;
+        background: #242424;
+        padding: 10px 14px;
+      }
+
+      button {
+        cursor: pointer;
+      }
+
+      button:hover {
+        background: #2e2e2e;
+      }
+
+      .instance {
+        display: flex;
+        flex-direction: column;
+        align-items: flex-start;
+        width: 100%;
+        margin-bottom: 8px;
+        text-align: start;
+      }
+
+      .instance span {
+        color: #a8a8a8;
+        font-size: 0.9em;
+      }
+
+      form {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 8px;
+        margin-top: 24px;
+      }
+
+      label {
+        width: 100%;
+      }
+
+      input {
+        flex: 1;
+      }
+
+      .sources {
+        display: grid;
+        grid-template-columns: repeat(auto-fill, minmax(200px, 1fr));
+        gap: 8px;
+        margin-bottom: 24px;
+      }
+
+      .source {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        min-width: 0;
+      }
+
+      .source[aria-pressed="true"] {
+        border-color: #ff4654;
+      }
+
+      .source img {
+        width: 100%;
+        aspect-ratio: 16 / 9;
+        object-fit: contain;
+        background: #000;
+      }
+
+      .source span {
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .actions {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+      }
+
+      .actions label {
+        width: auto;
+        margin-inline-end: auto;
+      }
+
+      [role="alert"] {
+        width: 100%;
+        color: #f04747;
+      }
+    </style>
+  </head>
+  <body>
+    ${body}
+    <script>
+      ${script}
+    </script>
+  </body>
+</html>
+`;
+}
@@ -0,0 +1,65 @@
+import { escapeHtml, renderCountdown, renderPage } from "./page";
+
+/**
+ * What went wrong and what the recovery page offers
+ */
+export type RecoveryPageOptions = {
+  title: string;
+  message: string;
+
+  /**
+   * Seconds until the client is reloaded, null if it won't be
+   */
+  retryIn: number | null;
+
+  /**
+   * Whether to offer restarting without hardware acceleration
+   */
+  offerSafeMode: boolean;
+};
+
+/**
+ * Render the page shown in place of the client when it stops working
+ * @param options What went wrong
+ */
+export function renderRecoveryPage({
+  title,
+  message,
+  retryIn,
+  offerSafeMode,
+}: RecoveryPageOptions) {
+  return renderPage(
+    title,
+    `
+    <h1>${escapeHtml(title)}</h1>
+    <p>${escapeHtml(message)}</p>
+    <p id="countdown"></p>
+    ${
+      offerSafeMode
+        ? `<p>Stoat keeps crashing. Turning off hardware acceleration for one session may help if your graphics driver is the cause.</p>`
+        : ""
+    }
+
+    <div class="actions">
+      <button id="reload">Reload</button>
+      <button id="logs">Open logs</button>
+      ${
+        offerSafeMode
+          ? `<button id="safe-mode">Restart without hardware acceleration</button>`
+          : ""
+      }
+    </div>`,
+    `
+    ${renderCountdown(retryIn, "Reloading in")}
+
+    document
+      .getElementById("reload")
+      .addEventListener("click", () => window.recovery.reload());
+    document
+      .getElementById("logs")
+      .addEventListener("click", () => window.recovery.openLogs());
+    document
+      .getElementById("safe-mode")
+      ?.addEventListener("click", () => window.recovery.restartInSafeMode());`,
+  );
+}
@@ -0,0 +1,102 @@
+import { escapeHtml, renderPage } from "./page";
+
+/**
+ * Render a section of sources to pick from
+ * @param title Section heading
+ * @param sources Sources in the section
+ * @param selected ID of the source selected initially
+ */
+function renderSources(
+  title: string,
+  sources: DesktopScreenShareSource[],
+  selected: string,
+) {
+  if (!sources.length) return "";
+
+  const buttons = sources
+    .map(
+      (source) => `
+        <button
+          class="source"
+          data-id="${escapeHtml(source.id)}"
+          aria-pressed="${source.id === selected}"
+        >
+          <img src="${escapeHtml(source.thumbnail)}" alt="" />
+          <span>${escapeHtml(source.name)}</span>
+        </button>`,
+    )
+    .join("");
+
+  return `
+    <h2>${escapeHtml(title)}</h2>
+    <div class="sources">${buttons}</div>`;
+}
+
+/**
+ * Render the page for choosing what to share
+ * @param sources Screens and windows
+ * @param selected ID of the source shared last time
+ * @param audio Whether to offer sharing system audio, and its initial state
+ */
+export function renderScreenSharePicker(
+  sources: DesktopScreenShareSource[],
+  selected: string,
+  audio: { available: boolean; checked: boolean },
+) {
+  const initial = sources.some((source) => source.id === selected)
+    ? selected
+    : (sources[0]?.id ?? "");
+
+  return renderPage(
+    "Share your screen",
+    `
+    <h1>Choose what to share</h1>
+    ${renderSources(
+      "Screens",
+      sources.filter((source) => source.type === "screen"),
+      initial,
+    )}
+    ${renderSources(
+      "Windows",
+      sources.filter((source) => source.type === "window"),
+      initial,
+    )}
+
+    <div class="actions">
+      ${
+        audio.available
+          ? `<label>
+        <input id="audio" type="checkbox" ${audio.checked ? "checked" : ""} />
+        Share system audio
+      </label>`
+          : ""
+      }
+      <button id="cancel">Cancel</button>
+      <button id="share">Share</button>
+    </div>`,
+    `
+    let selected = ${JSON.stringify(initial).replace(/</g, "\\u003c")};
+    const audio = document.getElementById("audio");
+    const share = () =>
+      window.native.selectScreenShareSource(selected, audio?.checked ?? false);
+
+    document.querySelectorAll("[data-id]").forEach((button) => {
+      button.addEventListener("click", () => {
+        selected = button.dataset.id;
+        document
+          .querySelectorAll("[data-id]")
+          .forEach((other) => other.setAttribute("aria-pressed", other === button));
+      });
+
+      button.addEventListener("dblclick", share);
+    });
+
+    document.getElementById("share").addEventListener("click", share);
+    document
+      .getElementById("cancel")
+      .addEventListener("click", () => window.native.selectScreenShareSource(null));
+    document.addEventListener("keydown", (event) => {
+      if (event.key === "Escape") window.native.selectScreenShareSource(null);
+    });`,
+  );
+}
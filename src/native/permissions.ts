@@ -0,0 +1,280 @@
+import {
+  BrowserWindow,
+  MessageBoxOptions,
+  Session,
+  WebContents,
+  dialog,
+  ipcMain,
+} from "electron";
+
+import { config } from "./config";
+import { BUILD_URL } from "./window";
+
+// harmless permissions every origin gets
+const ALWAYS_ALLOWED = ["clipboard-sanitized-write", "fullscreen"];
+
+// what other origins are asked for, described to the user
+const PERMISSION_DESCRIPTIONS: Record<string, string> = {
+  camera: "use your camera",
+  microphone: "use your microphone",
+  notifications: "show notifications",
+  "clipboard-read": "read your clipboard",
+  "display-capture": "share your screen",
+  geolocation: "know your location",
+  midi: "use your MIDI devices",
+  midiSysex: "control your MIDI devices",
+  pointerLock: "lock your mouse cursor",
+  keyboardLock: "capture your keyboard",
+  "idle-detection": "know when you are idle",
+  "window-management": "manage windows on your displays",
+  "storage-access": "access its cookies while embedded",
+  mediaKeySystem: "play protected content",
+};
+
+// sessions which already have the handlers installed
+const permissionSessions = new WeakSet<Session>();
+
+// answers the user chose not to remember, kept until the app restarts
+const sessionAnswers = new Map<string, boolean>();
+
+// prompts being shown, so repeated requests share one
+const pendingPrompts = new Map<string, Promise<boolean>>();
+
+/**
+ * Key permissions are stored under, `URL.origin` is opaque for `stoat://`
+ * @param url URL
+ * @returns Origin or null if the URL is invalid
+ */
+export function getPermissionOrigin(url: string) {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.host}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether an origin is the client, which is trusted by default
+ * @param origin Origin
+ */
+function isTrustedOrigin(origin: string) {
+  return origin === `${BUILD_URL.protocol}//${BUILD_URL.host}`;
+}
+
+/**
+ * Look up the answer for a permission without asking
+ * @param origin Origin
+ * @param permission Permission
+ * @returns Whether it is granted or null if the user should be asked
+ */
+function getDecision(origin: string, permission: string) {
+  if (ALWAYS_ALLOWED.includes(permission)) return true;
+
+  const saved = config.permissions[origin]?.[permission];
+  if (saved !== undefined) return saved;
+
+  const answer = sessionAnswers.get(`${origin} ${permission}`);
+  if (answer !== undefined) return answer;
+
+  if (isTrustedOrigin(origin)) return true;
+
+  // permissions nobody is asked for are denied
+  return permission in PERMISSION_DESCRIPTIONS ? null : false;
+}
+
+/**
+ * Remember whether an origin may use a permission
+ * @param origin Origin
+ * @param permission Permission
+ * @param granted Whether it is granted
+ */
+export function savePermission(
+  origin: string,
+  permission: string,
+  granted: boolean,
+) {
+  config.permissions = {
+    ...config.permissions,
+    [origin]: { ...config.permissions[origin], [permission]: granted },
+  };
+}
+
+/**
+ * List every saved answer
+ */
+export function getPermissionGrants(): DesktopPermissionGrant[] {
+  return Object.entries(config.permissions).flatMap(([origin, permissions]) =>
+    Object.entries(permissions).map(([permission, granted]) => ({
+      origin,
+      permission,
+      granted,
+    })),
+  );
+}
+
+/**
+ * Forget saved answers so the origin is asked again
+ * @param origin Origin
+ * @param permission Permission, forgets all of the origin's if omitted
+ */
+export function revokePermission(origin: string, permission?: string) {
+  const permissions = { ...config.permissions };
+
+  if (permission && permissions[origin]) {
+    permissions[origin] = { ...permissions[origin] };
+    delete permissions[origin][permission];
+  }
+
+  if (!permission || !Object.keys(permissions[origin] ?? {}).length) {
+    delete permissions[origin];
+  }
+
+  config.permissions = permissions;
+
+  for (const key of [...sessionAnswers.keys()]) {
+    if (
+      permission
+        ? key === `${origin} ${permission}`
+        : key.startsWith(`${origin} `)
+    ) {
+      sessionAnswers.delete(key);
+    }
+  }
+}
+
+/**
+ * Ask whether an origin may use a permission
+ * @param contents Web contents making the request
+ * @param origin Origin
+ * @param permission Permission
+ */
+async function promptPermission(
+  contents: WebContents,
+  origin: string,
+  permission: string,
+) {
+  const window = BrowserWindow.fromWebContents(contents);
+  const options: MessageBoxOptions = {
+    type: "question",
+    title: "Permission request",
+    message: `${origin} wants to ${PERMISSION_DESCRIPTIONS[permission]}`,
+    buttons: ["Allow", "Block"],
+    defaultId: 1,
+    cancelId: 1,
+    checkboxLabel: "Remember this decision",
+    checkboxChecked: true,
+  };
+
+  const { response, checkboxChecked } = window
+    ? await dialog.showMessageBox(window, options)
+    : await dialog.showMessageBox(options);
+
+  const granted = response === 0;
+  if (checkboxChecked) {
+    savePermission(origin, permission, granted);
+  } else {
+    sessionAnswers.set(`${origin} ${permission}`, granted);
+  }
+
+  return granted;
+}
+
+/**
+ * Decide whether an origin may use a permission, asking if needed
+ * @param contents Web contents making the request
+ * @param origin Origin
+ * @param permission Permission
+ */
+export function requestPermission(
+  contents: WebContents,
+  origin: string,
+  permission: string,
+) {
+  const decision = getDecision(origin, permission);
+  if (decision !== null) return Promise.resolve(decision);
+
+  const key = `${origin} ${permission}`;
+  if (!pendingPrompts.has(key)) {
+    pendingPrompts.set(
+      key,
+      promptPermission(contents, origin, permission).finally(() =>
+        pendingPrompts.delete(key),
+      ),
+    );
+  }
+
+  return pendingPrompts.get(key);
+}
+
+/**
+ * Split media permissions into the devices they use
+ * @param permission Permission
+ * @param mediaTypes Devices requested for `media`
+ */
+function expandPermission(permission: string, mediaTypes: string[] = []) {
+  if (permission !== "media") return [permission];
+
+  return mediaTypes.map((type) => (type === "video" ? "camera" : "microphone"));
+}
+
+/**
+ * Decide permissions for a session per origin instead of granting everything
+ * @param session Session
+ */
+export function attachPermissions(session: Session) {
+  if (permissionSessions.has(session)) return;
+  permissionSessions.add(session);
+
+  session.setPermissionRequestHandler(
+    async (contents, permission, callback, details) => {
+      const origin = getPermissionOrigin(details.requestingUrl);
+      const permissions = expandPermission(
+        permission,
+        "mediaTypes" in details ? details.mediaTypes : [],
+      );
+
+      if (!origin || !permissions.length) {
+        callback(false);
+        return;
+      }
+
+      // ask one at a time so camera and microphone get their own prompt
+      for (const name of permissions) {
+        if (!(await requestPermission(contents, origin, name))) {
+          console.info("[Permissions] Denied", name, "to", origin);
+          callback(false);
+          return;
+        }
+      }
+
+      callback(true);
+    },
+  );
+
+  session.setPermissionCheckHandler(
+    (_contents, permission, requestingOrigin, details) => {
+      const origin = getPermissionOrigin(requestingOrigin);
+      if (!origin) return false;
+
+      const permissions = expandPermission(
+        permission,
+        details.mediaType && details.mediaType !== "unknown"
+          ? [details.mediaType]
+          : ["video", "audio"],
+      );
+
+      // checks never prompt, unanswered requests are reported as denied
+      return (
+        permissions.length > 0 &&
+        permissions.every((name) => getDecision(origin, name) === true)
+      );
+    },
+  );
+}
+
+ipcMain.handle("getPermissions", () => getPermissionGrants());
+
+ipcMain.handle("revokePermission", (_, origin: string, permission?: string) =>
+  revokePermission(origin, permission),
+);
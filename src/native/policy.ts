@@ -0,0 +1,93 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { validateConfigValue } from "./configSchema";
+
+/**
+ * Settings an administrator can lock, `autostart` is managed by the OS
+ */
+export type DesktopPolicy = Partial<DesktopConfig> & { autostart?: boolean };
+
+/**
+ * Locate the system-wide policy file
+ */
+function getPolicyPath() {
+  if (process.env.STOAT_DESKTOP_POLICY) {
+    return process.env.STOAT_DESKTOP_POLICY;
+  }
+
+  switch (process.platform) {
+    case "win32":
+      return join(
+        process.env.PROGRAMDATA ?? "C:\\ProgramData",
+        "Stoat",
+        "policy.json",
+      );
+    case "darwin":
+      return "/Library/Application Support/Stoat/policy.json";
+    default:
+      return "/etc/stoat-desktop/policy.json";
+  }
+}
+
+/**
+ * Read and validate the policy file, invalid entries are ignored
+ */
+function loadPolicy(): DesktopPolicy {
+  const path = getPolicyPath();
+  if (!existsSync(path)) return {};
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    console.error("[Policy] Failed to read policy file:", path, err);
+    return {};
+  }
+
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    console.error("[Policy] Policy file must contain an object:", path);
+    return {};
+  }
+
+  const policy: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const errors =
+      key === "autostart"
+        ? typeof value === "boolean"
+          ? []
+          : ["autostart must be a boolean"]
+        : key === "configVersion"
+          ? ["unknown setting"]
+          : validateConfigValue(key, value);
+
+    if (errors.length) {
+      console.warn(`[Policy] Ignoring "${key}":`, errors);
+    } else {
+      policy[key] = value;
+    }
+  }
+
+  console.info("[Policy] Loaded policy from", path, policy);
+  return policy;
+}
+
+/**
+ * Read-only policy for this session
+ */
+export const policy: Readonly<DesktopPolicy> = Object.freeze(loadPolicy());
+
+/**
+ * Check whether a setting is locked by policy
+ * @param key Setting
+ */
+export function isLocked(key: string): key is keyof DesktopPolicy {
+  return Object.prototype.hasOwnProperty.call(policy, key);
+}
+
+/**
+ * List all settings locked by policy
+ */
+export function getLockedKeys() {
+  return Object.keys(policy) as (keyof DesktopPolicy)[];
+}
@@ -0,0 +1,113 @@
+import { BrowserWindow, ipcMain } from "electron";
+
+import { config } from "./config";
+import { updateTrayMenu } from "./tray";
+import { BUILD_URL, createAppWindow, mainWindow } from "./window";
+import { getRestoreBounds, trackWindowState } from "./windowState";
+
+// pop-out windows by the key the client opened them with
+const popoutWindows = new Map<string, BrowserWindow>();
+
+// most recently focused application window
+let focusedWindow: BrowserWindow | null = null;
+
+/**
+ * Get every open application window, starting with the main window
+ */
+export function getAppWindows() {
+  return [mainWindow, ...popoutWindows.values()].filter(
+    (window) => window && !window.isDestroyed(),
+  );
+}
+
+/**
+ * Get the most recently focused application window
+ */
+export function getFocusedWindow() {
+  return focusedWindow && !focusedWindow.isDestroyed()
+    ? focusedWindow
+    : mainWindow;
+}
+
+/**
+ * Remember which application window was focused last
+ * @param window Application window
+ */
+export function trackWindowFocus(window: BrowserWindow) {
+  window.on("focus", () => (focusedWindow = window));
+  window.on("closed", () => {
+    if (focusedWindow === window) focusedWindow = null;
+  });
+}
+
+/**
+ * Open a secondary window for part of the client, or focus it if already open
+ * @param key Identifies the window, its geometry is remembered under this key
+ * @param path Path to load, relative to the build URL
+ */
+export function openPopoutWindow(key: string, path: string) {
+  const existing = popoutWindows.get(key);
+  if (existing && !existing.isDestroyed()) {
+    existing.show();
+    existing.focus();
+    return;
+  }
+
+  // pop-outs may only show the client itself
+  const url = new URL(path, BUILD_URL);
+  if (url.protocol !== BUILD_URL.protocol || url.host !== BUILD_URL.host) {
+    throw new Error(`Refusing to open pop-out outside of client: ${path}`);
+  }
+
+  const state = config.popoutWindowStates[key];
+  const window = createAppWindow({
+    width: 800,
+    height: 600,
+    ...getRestoreBounds(state),
+  });
+
+  if (state?.isMaximised) {
+    window.maximize();
+  }
+
+  popoutWindows.set(key, window);
+
+  // remember geometry for next time
+  trackWindowState(window, (state) => {
+    config.popoutWindowStates = {
+      ...config.popoutWindowStates,
+      [key]: state,
+    };
+  });
+
+  window.on("closed", () => {
+    if (popoutWindows.get(key) === window) {
+      popoutWindows.delete(key);
+    }
+
+    updateTrayMenu();
+  });
+
+  window.on("show", updateTrayMenu);
+  window.on("hide", updateTrayMenu);
+
+  window
+    .loadURL(url.toString())
+    .catch((err) => console.error("[Popout] Failed to load", url, err));
+  updateTrayMenu();
+}
+
+/**
+ * Close every pop-out window
+ */
+export function closePopoutWindows() {
+  for (const window of popoutWindows.values()) {
+    if (!window.isDestroyed()) {
+      window.close();
+    }
+  }
+}
+
+ipcMain.handle("openWindow", (_, key: string, path: string) =>
+  openPopoutWindow(key, path),
+);
@@ -0,0 +1,171 @@
+import { randomUUID } from "node:crypto";
+
+import { ipcMain, session } from "electron";
+
+import { setBadgeCount } from "./badges";
+import { config } from "./config";
+import { updateTrayMenu } from "./tray";
+import { createMainWindow, mainWindow } from "./window";
+
+// longest name a profile can be given
+const MAX_PROFILE_NAME_LENGTH = 64;
+
+// last badge count reported by each profile
+const badgeCounts: Record<string, number> = {};
+
+/**
+ * Get the currently active profile
+ */
+export function getActiveProfile() {
+  return (
+    config.profiles.find((profile) => profile.id === config.activeProfile) ??
+    config.profiles[0]
+  );
+}
+
+/**
+ * Get the session holding a profile's cookies, storage and cache
+ * @param id Profile ID
+ */
+export function getProfileSession(id: string) {
+  // the default profile keeps using the session from before profiles existed
+  return id === "default"
+    ? session.defaultSession
+    : session.fromPartition(`persist:profile-${id}`);
+}
+
+/**
+ * Get the last badge count reported by a profile
+ *
+ * Only the active profile's client is running, so counts for other
+ * profiles are a snapshot from when they were last active.
+ * @param id Profile ID
+ */
+export function getProfileBadgeCount(id: string) {
+  return badgeCounts[id] ?? 0;
+}
+
+/**
+ * Record the badge count for the active profile
+ * @param count Badge count
+ */
+export function setProfileBadgeCount(count: number) {
+  badgeCounts[getActiveProfile().id] = count;
+  updateTrayMenu();
+}
+
+/**
+ * Check and tidy up a profile name
+ * @param name Display name
+ * @returns Trimmed name
+ */
+function normaliseProfileName(name: unknown) {
+  if (typeof name !== "string" || !name.trim()) {
+    throw new Error("Profile name must not be empty");
+  }
+
+  if (name.trim().length > MAX_PROFILE_NAME_LENGTH) {
+    throw new Error(
+      `Profile name must be at most ${MAX_PROFILE_NAME_LENGTH} characters`,
+    );
+  }
+
+  return name.trim();
+}
+
+/**
+ * Create a new profile
+ * @param name Display name
+ */
+export function addProfile(name: string) {
+  const profile = { id: randomUUID(), name: normaliseProfileName(name) };
+  config.profiles = [...config.profiles, profile];
+  updateTrayMenu();
+  return profile;
+}
+
+/**
+ * Rename an existing profile
+ * @param id Profile ID
+ * @param name Display name
+ */
+export function renameProfile(id: string, name: string) {
+  const newName = normaliseProfileName(name);
+
+  config.profiles = config.profiles.map((profile) =>
+    profile.id === id ? { ...profile, name: newName } : profile,
+  );
+
+  updateTrayMenu();
+}
+
+/**
+ * Remove a profile and all of its data
+ * @param id Profile ID
+ */
+export async function removeProfile(id: string) {
+  if (id === "default" || id === getActiveProfile().id) {
+    throw new Error("Cannot remove the default or active profile");
+  }
+
+  config.profiles = config.profiles.filter((profile) => profile.id !== id);
+  delete badgeCounts[id];
+  updateTrayMenu();
+
+  await getProfileSession(id).clearStorageData();
+}
+
+/**
+ * Switch the main window over to another profile
+ * @param id Profile ID
+ */
+export function switchProfile(id: string) {
+  if (id === getActiveProfile().id) return;
+  if (!config.profiles.some((profile) => profile.id === id)) {
+    throw new Error(`Unknown profile: ${id}`);
+  }
+
+  config.activeProfile = id;
+
+  // its count is stale until the new client reports one
+  delete badgeCounts[id];
+
+  // sessions are fixed at creation so the window has to be replaced,
+  // open the new one first so the app doesn't see all windows closing
+  const previousWindow = mainWindow;
+  const wasVisible = previousWindow.isVisible();
+
+  createMainWindow();
+  previousWindow.destroy();
+
+  if (wasVisible) {
+    mainWindow.show();
+    mainWindow.focus();
+  } else {
+    mainWindow.hide();
+  }
+
+  setBadgeCount(0);
+  updateTrayMenu();
+}
+
+ipcMain.handle("getProfiles", () => ({
+  profiles: config.profiles,
+  activeProfile: getActiveProfile().id,
+}));
+
+ipcMain.handle("addProfile", (_, name: string) => addProfile(name));
+
+ipcMain.handle("renameProfile", (_, id: string, name: string) =>
+  renameProfile(id, name),
+);
+
+ipcMain.handle("removeProfile", (_, id: string) => removeProfile(id));
+
+ipcMain.on("switchProfile", (_, id: string) => {
+  try {
+    switchProfile(id);
+  } catch (err) {
+    console.error("[Profiles] Failed to switch profile:", err);
+  }
+});
@@ -1,10 +1,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import * as path from "node:path";
 
-import { app, ipcMain } from "electron";
+import { BrowserWindow, app, ipcMain } from "electron";
 
 import { config } from "./config";
-import { mainWindow } from "./window";
+import { getAppWindows } from "./popout";
+import { validateShortcuts } from "./shortcuts";
 
 let GlobalKeyboardListener: any = null;
 let keyboardListenerInstance: any = null;
@@ -42,6 +43,7 @@ function pttLog(...args: unknown[]) {
 let isPttActive = false;
 let isKeyspyRunning = false;
 let isWindowFocused = false;
+let isRegistered = false;
 
 let currentKeybind = "";
 let keybindModifiers = { ctrl: false, shift: false, alt: false, meta: false };
@@ -58,30 +60,28 @@ function getReleaseDelay(): number {
 pttLog("Module loaded (using keyspy)");
 
 function sendPttState(active: boolean) {
-  if (
-    mainWindow &&
-    !mainWindow.isDestroyed() &&
-    !mainWindow.webContents.isDestroyed()
-  ) {
-    pttLog("Sending PTT state:", active ? "ON" : "OFF");
-    mainWindow.webContents.send("push-to-talk", { active });
+  pttLog("Sending PTT state:", active ? "ON" : "OFF");
+
+  for (const window of getAppWindows()) {
+    if (!window.webContents.isDestroyed()) {
+      window.webContents.send("push-to-talk", { active });
+    }
   }
 }
 
 function sendPttConfig() {
-  if (
-    mainWindow &&
-    !mainWindow.isDestroyed() &&
-    !mainWindow.webContents.isDestroyed()
-  ) {
-    const pttConfig = {
-      enabled: config.pushToTalk,
-      keybind: config.pushToTalkKeybind,
-      mode: config.pushToTalkMode,
-      releaseDelay: config.pushToTalkReleaseDelay,
-    };
-    pttLog("Sending PTT config to renderer:", pttConfig);
-    mainWindow.webContents.send("push-to-talk-config", pttConfig);
+  const pttConfig = {
+    enabled: config.pushToTalk,
+    keybind: config.pushToTalkKeybind,
+    mode: config.pushToTalkMode,
+    releaseDelay: config.pushToTalkReleaseDelay,
+  };
+  pttLog("Sending PTT config to renderer:", pttConfig);
+
+  for (const window of getAppWindows()) {
+    if (!window.webContents.isDestroyed()) {
+      window.webContents.send("push-to-talk-config", pttConfig);
+    }
   }
 }
 
@@ -259,7 +259,7 @@ function handleBeforeInputEvent(event: Electron.Event, input: Electron.Input) {
   const isPttKey = isKeyUpForActivePtt
     ? matchesKeybind(input, false)
     : matchesKeybind(input);
-  const focused = mainWindow?.isFocused() ?? false;
+  const focused = isWindowFocused;
 
   pttLog(
     `Input event: type=${input.type}, key=${input.key}, code=${input.code}, ` +
@@ -423,13 +423,55 @@ async function startKeyspy(): Promise<void> {
   }
 }
 
-export async function registerPushToTalkHotkey(): Promise<void> {
+// track focus state for ignoring keyspy events when focused
+function handleFocusChange() {
+  const focused = getAppWindows().some((window) => window.isFocused());
+  if (focused === isWindowFocused) return;
+
+  pttLog(
+    focused
+      ? "Window focused - keyspy events will be ignored"
+      : "Window blurred - keyspy events will now be processed",
+  );
+
+  isWindowFocused = focused;
+  heldKeys.clear();
+  pttActivationKey = null;
+}
+
+/**
+ * Listen for the PTT hotkey in an application window, if registered
+ * @param window Application window
+ */
+export function attachPushToTalk(window: BrowserWindow) {
+  if (!isRegistered || window.isDestroyed()) return;
+
+  window.webContents.off("before-input-event", handleBeforeInputEvent);
+  window.webContents.on("before-input-event", handleBeforeInputEvent);
+  window.off("focus", handleFocusChange);
+  window.on("focus", handleFocusChange);
+  window.off("blur", handleFocusChange);
+  window.on("blur", handleFocusChange);
+
+  pttLog(
+    "✓ before-input-event listener attached. Window focused:",
+    window.isFocused(),
+    "| Visible:",
+    window.isVisible(),
+  );
+}
+
+/**
+ * Register the PTT hotkey from the current configuration
+ * @returns Whether the global (unfocused) listener is running
+ */
+export async function registerPushToTalkHotkey(): Promise<boolean> {
   pttLog("Registering PTT hotkey...");
 
   if (!config.pushToTalk) {
     pttLog("PTT disabled in config");
     unregisterPushToTalkHotkey();
-    return;
+    return false;
   }
 
   const accelerator = config.pushToTalkKeybind || "Shift+Space";
@@ -450,50 +492,26 @@ export async function registerPushToTalkHotkey(): Promise<void> {
 
   sendPttConfig();
 
-  if (mainWindow && !mainWindow.isDestroyed()) {
-    pttLog("Setting up before-input-event listener...");
+  isRegistered = true;
 
-    mainWindow.webContents.off("before-input-event", handleBeforeInputEvent);
-    mainWindow.webContents.on("before-input-event", handleBeforeInputEvent);
-    pttLog(
-      "✓ before-input-event listener attached. Window focused:",
-      mainWindow.isFocused(),
-      "| Visible:",
-      mainWindow.isVisible(),
-    );
-  } else {
-    pttLog("✗ Cannot attach before-input-event listener - window not ready");
-  }
+  const windows = getAppWindows();
+  if (windows.length) {
+    pttLog("Setting up before-input-event listeners...");
+    windows.forEach(attachPushToTalk);
 
-  if (mainWindow && !mainWindow.isDestroyed()) {
-    isWindowFocused = mainWindow.isFocused();
+    isWindowFocused = windows.some((window) => window.isFocused());
     pttLog("Window initially focused:", isWindowFocused);
 
     await startKeyspy();
-
-    // track focus state for ignoring keyspy events when focused
-    mainWindow.on("focus", () => {
-      if (!isWindowFocused) {
-        pttLog("Window focused - keyspy events will be ignored");
-        isWindowFocused = true;
-        heldKeys.clear();
-        pttActivationKey = null;
-      }
-    });
-
-    mainWindow.on("blur", () => {
-      if (isWindowFocused) {
-        pttLog("Window blurred - keyspy events will now be processed");
-        isWindowFocused = false;
-        heldKeys.clear();
-        pttActivationKey = null;
-      }
-    });
+  } else {
+    pttLog("✗ Cannot attach before-input-event listener - window not ready");
   }
 
   isPttActive = false;
   sendPttState(false);
   pttLog("✓ PTT initialized with keyspy");
+
+  return isKeyspyRunning;
 }
 
 export function unregisterPushToTalkHotkey(): void {
@@ -501,10 +519,14 @@ export function unregisterPushToTalkHotkey(): void {
 
   deactivatePtt("unregister");
 
-  if (mainWindow && !mainWindow.isDestroyed()) {
-    mainWindow.webContents.off("before-input-event", handleBeforeInputEvent);
-    pttLog("Removed before-input-event listener");
+  isRegistered = false;
+
+  for (const window of getAppWindows()) {
+    window.webContents.off("before-input-event", handleBeforeInputEvent);
+    window.off("focus", handleFocusChange);
+    window.off("blur", handleFocusChange);
   }
+  pttLog("Removed before-input-event listeners");
 
   // stop keyspy when PTT is disabled
   if (isKeyspyRunning && keyboardListenerInstance) {
@@ -556,19 +578,30 @@ export function initPushToTalk(): void {
 
       const wasEnabled = config.pushToTalk;
 
-      if (typeof settings.enabled === "boolean") {
-        config.pushToTalk = settings.enabled;
-      }
+      // keep the previous keybind if the new one clashes with a shortcut
       if (typeof settings.keybind === "string") {
-        config.pushToTalkKeybind = settings.keybind;
-      }
-      if (settings.mode === "hold" || settings.mode === "toggle") {
-        config.pushToTalkMode = settings.mode;
-      }
-      if (typeof settings.releaseDelay === "number") {
-        config.pushToTalkReleaseDelay = settings.releaseDelay;
+        const errors = validateShortcuts(config.shortcuts, settings.keybind);
+        if (errors.length) {
+          console.error("[PTT] Rejected keybind:", errors);
+          delete settings.keybind;
+        }
       }
 
+      config.batch(() => {
+        if (typeof settings.enabled === "boolean") {
+          config.pushToTalk = settings.enabled;
+        }
+        if (typeof settings.keybind === "string") {
+          config.pushToTalkKeybind = settings.keybind;
+        }
+        if (settings.mode === "hold" || settings.mode === "toggle") {
+          config.pushToTalkMode = settings.mode;
+        }
+        if (typeof settings.releaseDelay === "number") {
+          config.pushToTalkReleaseDelay = settings.releaseDelay;
+        }
+      });
+
       if (typeof settings.enabled === "boolean") {
         if (settings.enabled && !wasEnabled) {
           pttLog("PTT enabled, registering hotkey...");
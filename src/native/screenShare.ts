@@ -0,0 +1,237 @@
+import { join } from "node:path";
+
+import {
+  BrowserWindow,
+  DesktopCapturerSource,
+  Session,
+  desktopCapturer,
+  ipcMain,
+  webContents,
+} from "electron";
+
+import { config } from "./config";
+import { renderScreenSharePicker } from "./pages/screenSharePicker";
+import { getPermissionOrigin, requestPermission } from "./permissions";
+
+// system audio can only be captured on Windows
+const LOOPBACK_SUPPORTED = process.platform === "win32";
+
+// size of the previews shown in pickers
+const THUMBNAIL_SIZE = { width: 320, height: 180 };
+
+// how long a source chosen in the client waits for its request
+const PRESELECTION_TIMEOUT = 10 * 1000;
+
+/**
+ * Source chosen for a screen share request
+ */
+type ScreenShareChoice = {
+  id: string;
+  audio: boolean;
+};
+
+// sessions which already handle screen share requests
+const screenShareSessions = new WeakSet<Session>();
+
+// source chosen through the client's own picker, used by the next request
+let preselected: (ScreenShareChoice & { expires: number }) | null = null;
+
+// open native picker and how to answer its request
+let picker: {
+  window: BrowserWindow;
+  resolve: (choice: ScreenShareChoice | null) => void;
+} | null = null;
+
+/**
+ * Describe a source for the client and the native picker
+ * @param source Source from `desktopCapturer`
+ */
+function describeSource(
+  source: DesktopCapturerSource,
+): DesktopScreenShareSource {
+  return {
+    id: source.id,
+    name: source.name,
+    type: source.id.startsWith("screen:") ? "screen" : "window",
+    thumbnail: source.thumbnail.toDataURL(),
+    icon: source.appIcon?.toDataURL() ?? null,
+  };
+}
+
+/**
+ * List the screens and windows which can be shared
+ */
+function getSources() {
+  return desktopCapturer.getSources({
+    types: ["screen", "window"],
+    thumbnailSize: THUMBNAIL_SIZE,
+    fetchWindowIcons: true,
+  });
+}
+
+/**
+ * List the screens and windows which can be shared, for the client's own picker
+ */
+export async function getScreenShareSources() {
+  return (await getSources()).map(describeSource);
+}
+
+/**
+ * Take the source chosen in the client if it is still waiting
+ */
+function takePreselection(): ScreenShareChoice | null {
+  const choice = preselected;
+  preselected = null;
+
+  return choice && choice.expires > Date.now() ? choice : null;
+}
+
+/**
+ * Ask which source to share in a window of our own
+ * @param parent Window the request came from
+ * @param sources Sources to pick from
+ * @param audioRequested Whether the client asked for audio
+ */
+function showPicker(
+  parent: BrowserWindow | null,
+  sources: DesktopCapturerSource[],
+  audioRequested: boolean,
+) {
+  // only one request is answered at a time
+  if (picker) {
+    const previous = picker;
+    picker = null;
+    previous.resolve(null);
+    previous.window.close();
+  }
+
+  return new Promise<ScreenShareChoice | null>((resolve) => {
+    const window = new BrowserWindow({
+      parent: parent ?? undefined,
+      modal: !!parent,
+      width: 760,
+      height: 600,
+      backgroundColor: "#191919",
+      title: "Share your screen",
+      webPreferences: {
+        // relative to `.vite/build`
+        preload: join(__dirname, "preload.js"),
+        session: parent?.webContents.session,
+        contextIsolation: true,
+        nodeIntegration: false,
+      },
+    });
+
+    window.setMenu(null);
+    picker = { window, resolve };
+
+    // closing the picker cancels the request
+    window.on("closed", () => {
+      if (picker?.window === window) {
+        picker = null;
+        resolve(null);
+      }
+    });
+
+    // cancel the request if the picker can't be shown
+    window
+      .loadURL(
+        `data:text/html;charset=utf-8,${encodeURIComponent(
+          renderScreenSharePicker(
+            sources.map(describeSource),
+            config.screenShareSource,
+            {
+              available: audioRequested && LOOPBACK_SUPPORTED,
+              checked: config.screenShareAudio,
+            },
+          ),
+        )}`,
+      )
+      .catch((err) => {
+        console.error("[ScreenShare] Failed to show the picker:", err);
+        if (!window.isDestroyed()) window.close();
+      });
+  });
+}
+
+/**
+ * Answer screen share requests from a session with the source the user picks
+ * @param session Session
+ */
+export function attachScreenShare(session: Session) {
+  if (screenShareSessions.has(session)) return;
+  screenShareSessions.add(session);
+
+  session.setDisplayMediaRequestHandler(async (request, callback) => {
+    try {
+      const contents = request.frame && webContents.fromFrame(request.frame);
+      const origin = getPermissionOrigin(
+        request.frame?.url ?? request.securityOrigin,
+      );
+
+      if (
+        !contents ||
+        !origin ||
+        !(await requestPermission(contents, origin, "display-capture"))
+      ) {
+        callback({});
+        return;
+      }
+
+      const sources = await getSources();
+      const choice =
+        takePreselection() ??
+        (await showPicker(
+          BrowserWindow.fromWebContents(contents),
+          sources,
+          request.audioRequested,
+        ));
+
+      const source = choice && sources.find(({ id }) => id === choice.id);
+      if (!source) {
+        callback({});
+        return;
+      }
+
+      // offer the same source and audio setting next time
+      config.batch(() => {
+        config.screenShareSource = source.id;
+        config.screenShareAudio = choice.audio;
+      });
+
+      callback({
+        video: source,
+        ...(choice.audio && request.audioRequested && LOOPBACK_SUPPORTED
+          ? { audio: "loopback" }
+          : {}),
+      });
+    } catch (err) {
+      console.error("[ScreenShare] Failed to pick a source:", err);
+      callback({});
+    }
+  });
+}
+
+ipcMain.handle("getScreenShareSources", () => getScreenShareSources());
+
+ipcMain.handle(
+  "selectScreenShareSource",
+  (event, id: string | null, audio = false) => {
+    const choice = id ? { id, audio: !!audio } : null;
+
+    // answer from the native picker
+    if (picker && event.sender === picker.window.webContents) {
+      const { window, resolve } = picker;
+      picker = null;
+      resolve(choice);
+      window.close();
+      return;
+    }
+
+    // chosen in the client before it calls `getDisplayMedia`
+    preselected = choice && {
+      ...choice,
+      expires: Date.now() + PRESELECTION_TIMEOUT,
+    };
+  },
+);
@@ -0,0 +1,290 @@
+import { BrowserWindow, ipcMain } from "electron";
+
+import { config } from "./config";
+import { findAgain, requestFind } from "./findInPage";
+import { quitApp } from "./window";
+import { getZoomLevel, setZoomLevel } from "./zoom";
+
+/**
+ * Action that can be bound to a keyboard shortcut
+ */
+interface ShortcutDefinition {
+  /**
+   * Label shown in settings
+   */
+  label: string;
+
+  /**
+   * Bindings used unless the user configured their own
+   */
+  defaults: string[];
+
+  /**
+   * Perform the action on the window the shortcut was pressed in
+   */
+  run(window: BrowserWindow): void;
+}
+
+/**
+ * Parsed form of an accelerator such as `CmdOrCtrl+Shift+R`
+ */
+interface ParsedShortcut {
+  key: string;
+  ctrl: boolean;
+  shift: boolean;
+  alt: boolean;
+  meta: boolean;
+}
+
+const shortcuts: Record<ShortcutAction, ShortcutDefinition> = {
+  zoomIn: {
+    label: "Zoom in",
+    defaults: ["Ctrl+=", "Ctrl+Plus"],
+    run: () => setZoomLevel(getZoomLevel() + 1),
+  },
+  zoomOut: {
+    label: "Zoom out",
+    defaults: ["Ctrl+-"],
+    run: () => setZoomLevel(getZoomLevel() - 1),
+  },
+  zoomReset: {
+    label: "Reset zoom",
+    defaults: ["Ctrl+0"],
+    run: () => setZoomLevel(0),
+  },
+  find: {
+    label: "Find in page",
+    defaults: ["CmdOrCtrl+F"],
+    run: (window) => requestFind(window.webContents),
+  },
+  findPrevious: {
+    label: "Find previous",
+    defaults: ["Shift+F3", "CmdOrCtrl+Shift+G"],
+    run: (window) => findAgain(window.webContents, false),
+  },
+  findNext: {
+    label: "Find next",
+    defaults: ["F3", "CmdOrCtrl+G"],
+    run: (window) => findAgain(window.webContents, true),
+  },
+  reload: {
+    label: "Reload",
+    defaults: ["F5", "Ctrl+R", "Meta+R"],
+    run: (window) => window.webContents.reload(),
+  },
+  devTools: {
+    label: "Toggle developer tools",
+    defaults: ["F12"],
+    run: (window) => window.webContents.toggleDevTools(),
+  },
+  fullscreen: {
+    label: "Toggle full screen",
+    defaults: ["F11"],
+    run: (window) => window.setFullScreen(!window.isFullScreen()),
+  },
+  hideToTray: {
+    label: "Hide to tray",
+    defaults: [],
+    run: (window) => window.hide(),
+  },
+  quit: {
+    label: "Quit",
+    defaults: [],
+    run: () => quitApp(),
+  },
+};
+
+const modifierNames: Record<string, keyof Omit<ParsedShortcut, "key">> = {
+  ctrl: "ctrl",
+  control: "ctrl",
+  shift: "shift",
+  alt: "alt",
+  option: "alt",
+  meta: "meta",
+  super: "meta",
+  cmd: "meta",
+  command: "meta",
+};
+
+const keyNames: Record<string, string> = {
+  plus: "+",
+  space: " ",
+  esc: "escape",
+  return: "enter",
+  up: "arrowup",
+  down: "arrowdown",
+  left: "arrowleft",
+  right: "arrowright",
+};
+
+/**
+ * Parse an accelerator string
+ * @param accelerator Accelerator such as `CmdOrCtrl+Shift+R`
+ * @returns Parsed shortcut or null if the accelerator is invalid
+ */
+export function parseShortcut(accelerator: string): ParsedShortcut | null {
+  // split on "+" only to allow "-" as a key, a trailing "+" is the key itself
+  const parts = accelerator.split("+").map((part) => part.trim());
+  let key = parts.pop();
+
+  if (key === "" && accelerator.endsWith("+")) {
+    parts.pop();
+    key = "+";
+  }
+
+  if (!key) return null;
+
+  const parsed: ParsedShortcut = {
+    key: keyNames[key.toLowerCase()] ?? key.toLowerCase(),
+    ctrl: false,
+    shift: false,
+    alt: false,
+    meta: false,
+  };
+
+  for (const part of parts) {
+    const name = part.toLowerCase();
+
+    if (name === "cmdorctrl" || name === "commandorcontrol") {
+      parsed[process.platform === "darwin" ? "meta" : "ctrl"] = true;
+    } else if (modifierNames[name]) {
+      parsed[modifierNames[name]] = true;
+    } else {
+      return null;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Check whether two accelerators describe the same key combination
+ */
+function isSameShortcut(a: ParsedShortcut, b: ParsedShortcut) {
+  return (
+    a.key === b.key &&
+    a.ctrl === b.ctrl &&
+    a.shift === b.shift &&
+    a.alt === b.alt &&
+    a.meta === b.meta
+  );
+}
+
+/**
+ * Check whether keyboard input matches a shortcut
+ *
+ * Modifiers must match exactly, except that Shift is allowed for symbols
+ * such as `+` which often need it to be typed in the first place.
+ */
+function matchesInput(shortcut: ParsedShortcut, input: Electron.Input) {
+  const isSymbol =
+    shortcut.key.length === 1 && !/^[\p{L}\p{N} ]$/u.test(shortcut.key);
+
+  return (
+    input.key.toLowerCase() === shortcut.key &&
+    input.control === shortcut.ctrl &&
+    input.alt === shortcut.alt &&
+    input.meta === shortcut.meta &&
+    (input.shift === shortcut.shift || (isSymbol && !shortcut.shift))
+  );
+}
+
+/**
+ * Get the bindings currently in effect for an action
+ * @param action Action
+ * @param overrides Bindings configured by the user
+ */
+function getBindings(
+  action: ShortcutAction,
+  overrides: DesktopConfig["shortcuts"] = config.shortcuts,
+) {
+  return overrides[action] ?? shortcuts[action].defaults;
+}
+
+/**
+ * Validate user-configured bindings
+ * @param overrides Bindings configured by the user
+ * @param pushToTalkKeybind Push-to-talk keybind they must not clash with
+ * @returns List of problems, empty if the bindings are valid
+ */
+export function validateShortcuts(
+  overrides: DesktopConfig["shortcuts"],
+  pushToTalkKeybind: string,
+) {
+  const errors: string[] = [];
+  const pushToTalk = parseShortcut(pushToTalkKeybind);
+  const seen: [ParsedShortcut, string, ShortcutAction][] = [];
+
+  for (const action of Object.keys(overrides)) {
+    if (!(action in shortcuts)) {
+      errors.push(`unknown shortcut action "${action}"`);
+    }
+  }
+
+  for (const action of Object.keys(shortcuts) as ShortcutAction[]) {
+    for (const binding of getBindings(action, overrides)) {
+      const parsed = parseShortcut(binding);
+      if (!parsed) {
+        errors.push(`${action}: invalid shortcut "${binding}"`);
+        continue;
+      }
+
+      if (pushToTalk && isSameShortcut(parsed, pushToTalk)) {
+        errors.push(
+          `${action}: "${binding}" is already used as the push-to-talk keybind`,
+        );
+      }
+
+      const duplicate = seen.find(([other]) => isSameShortcut(parsed, other));
+      if (duplicate && duplicate[2] !== action) {
+        errors.push(
+          `${action}: "${binding}" is already bound to ${duplicate[2]} as "${duplicate[1]}"`,
+        );
+      }
+
+      seen.push([parsed, binding, action]);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Run the action bound to keyboard input, if any
+ * @param window Window the input was received in
+ * @param event Input event, prevented if a shortcut matched
+ * @param input Keyboard input
+ */
+export function handleShortcutInput(
+  window: BrowserWindow,
+  event: Electron.Event,
+  input: Electron.Input,
+) {
+  if (input.type !== "keyDown") return;
+
+  // push-to-talk takes priority over conflicting bindings
+  const pushToTalk = config.pushToTalk
+    ? parseShortcut(config.pushToTalkKeybind)
+    : null;
+
+  for (const action of Object.keys(shortcuts) as ShortcutAction[]) {
+    for (const binding of getBindings(action)) {
+      const parsed = parseShortcut(binding);
+      if (!parsed || !matchesInput(parsed, input)) continue;
+      if (pushToTalk && isSameShortcut(parsed, pushToTalk)) continue;
+
+      event.preventDefault();
+      shortcuts[action].run(window);
+      return;
+    }
+  }
+}
+
+ipcMain.handle("getShortcuts", () =>
+  (Object.keys(shortcuts) as ShortcutAction[]).map((action) => ({
+    action,
+    label: shortcuts[action].label,
+    defaults: shortcuts[action].defaults,
+    bindings: getBindings(action),
+  })),
+);
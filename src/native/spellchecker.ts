@@ -0,0 +1,109 @@
+import { Session, ipcMain } from "electron";
+
+import { config } from "./config";
+import { getActiveProfile, getProfileSession } from "./profiles";
+
+// used to label language codes in the context menu
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+/**
+ * Get the session whose dictionary is being edited
+ */
+function getSpellcheckerSession() {
+  return getProfileSession(getActiveProfile().id);
+}
+
+/**
+ * Apply the spellchecker settings to a session
+ * @param session Session to configure
+ */
+export function applySpellcheckerSettings(session: Session) {
+  session.setSpellCheckerEnabled(config.spellchecker);
+
+  // macOS always uses the system spellchecker and its languages
+  if (process.platform === "darwin") return;
+
+  const available = session.availableSpellCheckerLanguages;
+  const languages = config.spellcheckerLanguages.filter((language) =>
+    available.includes(language),
+  );
+
+  if (languages.length !== config.spellcheckerLanguages.length) {
+    console.warn(
+      "[Spellchecker] Ignoring unsupported languages:",
+      config.spellcheckerLanguages.filter(
+        (language) => !available.includes(language),
+      ),
+    );
+  }
+
+  // an empty list keeps Chromium's choice based on the system locale
+  if (languages.length) {
+    session.setSpellCheckerLanguages(languages);
+  }
+}
+
+/**
+ * List languages the spellchecker can use, empty on macOS
+ */
+export function getAvailableLanguages() {
+  return process.platform === "darwin"
+    ? []
+    : getSpellcheckerSession().availableSpellCheckerLanguages;
+}
+
+/**
+ * Get a readable name for a language code
+ * @param code Language code such as `en-GB`
+ */
+export function getLanguageName(code: string) {
+  try {
+    return languageNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Get the languages currently being checked
+ * @param session Session to check
+ */
+export function getActiveLanguages(session = getSpellcheckerSession()) {
+  return config.spellcheckerLanguages.length
+    ? config.spellcheckerLanguages
+    : session.getSpellCheckerLanguages();
+}
+
+/**
+ * Enable or disable a spellchecker language
+ * @param code Language code
+ */
+export function toggleLanguage(code: string) {
+  const languages = getActiveLanguages();
+
+  config.spellcheckerLanguages = languages.includes(code)
+    ? languages.filter((language) => language !== code)
+    : [...languages, code];
+}
+
+/**
+ * List words added to the custom dictionary
+ */
+export function getDictionaryWords() {
+  return getSpellcheckerSession().listWordsInSpellCheckerDictionary();
+}
+
+/**
+ * Remove a word from the custom dictionary
+ * @param word Word to remove
+ * @returns Whether the word was removed
+ */
+export function removeDictionaryWord(word: string) {
+  return getSpellcheckerSession().removeWordFromSpellCheckerDictionary(word);
+}
+
+ipcMain.handle("getSpellcheckerLanguages", () => getAvailableLanguages());
+ipcMain.handle("getDictionaryWords", () => getDictionaryWords());
+ipcMain.handle("removeDictionaryWord", (_, word: string) =>
+  removeDictionaryWord(String(word)),
+);
@@ -1,14 +1,36 @@
-import { Menu, Tray, nativeImage } from "electron";
+import {
+  Menu,
+  MenuItemConstructorOptions,
+  Tray,
+  nativeImage,
+  shell,
+} from "electron";
 
 import trayIconAsset from "../../assets/desktop/icon.png?asset";
 import macOsTrayIconAsset from "../../assets/desktop/iconTemplate.png?asset";
 import { version } from "../../package.json";
 
-import { mainWindow, quitApp } from "./window";
+import { config } from "./config";
+import {
+  clearDownloads,
+  getDownloadDirectory,
+  openDownload,
+  showDownloadInFolder,
+} from "./downloads";
+import { getAppWindows, getFocusedWindow } from "./popout";
+import {
+  getActiveProfile,
+  getProfileBadgeCount,
+  switchProfile,
+} from "./profiles";
+import { quitApp } from "./window";
 
 // internal tray state
 let tray: Tray = null;
 
+// downloads listed in the tray menu
+const MAX_TRAY_DOWNLOADS = 5;
+
 // Create and resize tray icon for macOS
 function createTrayIcon() {
   if (process.platform === "darwin") {
@@ -27,17 +49,29 @@ export function initTray() {
   updateTrayMenu();
   tray.setToolTip("Stoat for Desktop");
   tray.setImage(trayIcon);
-  tray.on("click", () => {
-    if (mainWindow.isVisible()) {
-     mainWindow.hide();
-    } else {
-     mainWindow.show();
-     mainWindow.focus();
-    }
-  });
+  tray.on("click", toggleAppWindows);
+}
+
+/**
+ * Hide all application windows, or show them and focus the last used one
+ */
+function toggleAppWindows() {
+  const windows = getAppWindows();
+
+  if (windows.some((window) => window.isVisible())) {
+    windows.forEach((window) => window.hide());
+  } else {
+    windows.forEach((window) => window.show());
+    getFocusedWindow().focus();
+  }
 }
 
 export function updateTrayMenu() {
+  // tray may not exist yet while the window is being created
+  if (!tray) return;
+
+  const activeProfile = getActiveProfile();
+
   tray.setContextMenu(
     Menu.buildFromTemplate([
       { label: "Stoat for Desktop", type: "normal", enabled: false },
@@ -54,15 +88,68 @@ export function updateTrayMenu() {
       },
       { type: "separator" },
       {
-        label: mainWindow.isVisible() ? "Hide App" : "Show App",
+        label: "Profiles",
+        type: "submenu",
+        submenu: Menu.buildFromTemplate(
+          config.profiles.map((profile) => {
+            const count = getProfileBadgeCount(profile.id);
+
+            return {
+              label:
+                count === 0
+                  ? profile.name
+                  : `${profile.name} (${count === -1 ? "•" : count})`,
+              type: "radio",
+              checked: profile.id === activeProfile.id,
+              click: () => switchProfile(profile.id),
+            };
+          }),
+        ),
+      },
+      {
+        label: "Recent Downloads",
+        type: "submenu",
+        submenu: Menu.buildFromTemplate([
+          ...config.recentDownloads
+            .filter((download) => download.state === "completed")
+            .slice(0, MAX_TRAY_DOWNLOADS)
+            .map(
+              (download): MenuItemConstructorOptions => ({
+                label: download.filename,
+                type: "submenu",
+                submenu: [
+                  {
+                    label: "Open",
+                    click: () => openDownload(download.id),
+                  },
+                  {
+                    label: "Show in Folder",
+                    click: () => showDownloadInFolder(download.id),
+                  },
+                ],
+              }),
+            ),
+          { type: "separator" },
+          {
+            label: "Open Downloads Folder",
+            type: "normal",
+            click: () => shell.openPath(getDownloadDirectory()),
+          },
+          {
+            label: "Clear Downloads",
+            type: "normal",
+            enabled: config.recentDownloads.length > 0,
+            click: clearDownloads,
+          },
+        ]),
+      },
+      { type: "separator" },
+      {
+        label: getAppWindows().some((window) => window.isVisible())
+          ? "Hide App"
+          : "Show App",
         type: "normal",
-        click() {
-          if (mainWindow.isVisible()) {
-            mainWindow.hide();
-          } else {
-            mainWindow.show();
-          }
-        },
+        click: toggleAppWindows,
       },
       {
         label: "Quit App",
@@ -0,0 +1,257 @@
+import assert from "node:assert/strict";
+import { generateKeyPairSync, sign } from "node:crypto";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { type Server, createServer } from "node:http";
+import { type AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  after,
+  afterEach,
+  before,
+  beforeEach,
+  describe,
+  test,
+} from "node:test";
+
+import { WebBundles } from "./webBundles";
+import { hashContents } from "./webManifest";
+
+const keys = generateKeyPairSync("ed25519");
+const publicKey = keys.publicKey.export({ type: "spki", format: "pem" });
+
+// files published by the test server, by path
+const published = new Map<string, Buffer>();
+
+let server: Server;
+let baseUrl: URL;
+let dir: string;
+
+/**
+ * Publish a bundle along with its manifest
+ * @param version Bundle version, also used as its timestamp
+ * @param files Contents of each file
+ * @param options How to sign the manifest and what to serve instead
+ */
+function publish(
+  version: number,
+  files: Record<string, string>,
+  {
+    signingKey = keys.privateKey,
+    served = {},
+  }: {
+    signingKey?: typeof keys.privateKey;
+    served?: Record<string, string>;
+  } = {},
+) {
+  const manifest = Buffer.from(
+    JSON.stringify({
+      algorithm: "sha256",
+      version: String(version),
+      timestamp: version,
+      baseUrl: `${version}/`,
+      files: Object.fromEntries(
+        Object.entries(files).map(([key, contents]) => [
+          key,
+          {
+            size: Buffer.byteLength(contents),
+            hash: hashContents(Buffer.from(contents)),
+          },
+        ]),
+      ),
+    }),
+  );
+
+  published.set("/manifest.json", manifest);
+  published.set(
+    "/manifest.json.sig",
+    Buffer.from(sign(null, manifest, signingKey).toString("base64")),
+  );
+
+  for (const [key, contents] of Object.entries({ ...files, ...served })) {
+    published.set(`/${version}/${key}`, Buffer.from(contents));
+  }
+}
+
+/**
+ * Open the bundles directory as the app would at startup
+ */
+function openBundles() {
+  return new WebBundles({ dir, publicKey, bundledManifest: null });
+}
+
+before(async () => {
+  server = createServer((request, response) => {
+    const data = published.get(new URL(request.url, "http://x").pathname);
+    response.writeHead(data ? 200 : 404).end(data);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = new URL(
+    `http://127.0.0.1:${(server.address() as AddressInfo).port}/`,
+  );
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "stoat-bundles-"));
+  published.clear();
+});
+
+afterEach(() => rm(dir, { recursive: true, force: true }));
+
+describe("WebBundles", () => {
+  test("installs a signed bundle and uses it from the next launch", async () => {
+    publish(1, { "index.html": "v1", "assets/app.js": "app" });
+
+    assert.equal(
+      await openBundles().install(new URL("manifest.json", baseUrl)),
+      true,
+    );
+
+    const bundle = await openBundles().select();
+    assert.ok(bundle);
+    assert.equal(bundle.manifest.version, "1");
+    assert.equal(bundle.pending, true);
+    assert.equal(
+      await readFile(join(bundle.dir, "assets", "app.js"), "utf-8"),
+      "app",
+    );
+  });
+
+  test("doesn't install the same or an older version again", async () => {
+    const bundles = openBundles();
+
+    publish(2, { "index.html": "v2" });
+    assert.equal(
+      await bundles.install(new URL("manifest.json", baseUrl)),
+      true,
+    );
+
+    publish(1, { "index.html": "v1" });
+    assert.equal(
+      await bundles.install(new URL("manifest.json", baseUrl)),
+      false,
+    );
+  });
+
+  test("rejects files which don't match the manifest", async () => {
+    publish(1, { "index.html": "v1" }, { served: { "index.html": "evil" } });
+
+    await assert.rejects(
+      openBundles().install(new URL("manifest.json", baseUrl)),
+      /does not match the manifest/,
+    );
+
+    assert.equal(await openBundles().select(), null);
+  });
+
+  test("rejects manifests signed with another key", async () => {
+    publish(
+      1,
+      { "index.html": "v1" },
+      { signingKey: generateKeyPairSync("ed25519").privateKey },
+    );
+
+    await assert.rejects(
+      openBundles().install(new URL("manifest.json", baseUrl)),
+      /signature does not match/,
+    );
+
+    assert.equal(await openBundles().select(), null);
+  });
+
+  test("rejects manifests which were changed after signing", async () => {
+    publish(1, { "index.html": "v1" });
+    published.set(
+      "/manifest.json",
+      Buffer.from(
+        published.get("/manifest.json").toString().replace('"1"', '"9"'),
+      ),
+    );
+
+    await assert.rejects(
+      openBundles().install(new URL("manifest.json", baseUrl)),
+      /signature does not match/,
+    );
+  });
+
+  test("refuses to install without a public key", async () => {
+    publish(1, { "index.html": "v1" });
+
+    const bundles = new WebBundles({
+      dir,
+      publicKey: null,
+      bundledManifest: null,
+    });
+    await assert.rejects(
+      bundles.install(new URL("manifest.json", baseUrl)),
+      /No public key/,
+    );
+  });
+
+  test("rolls back an update which failed to load", async () => {
+    publish(1, { "index.html": "v1" });
+    await openBundles().install(new URL("manifest.json", baseUrl));
+
+    const first = await openBundles().select();
+    const bundles = openBundles();
+    bundles.confirm(first.id);
+
+    publish(2, { "index.html": "v2" });
+    await bundles.install(new URL("manifest.json", baseUrl));
+
+    const second = await openBundles().select();
+    assert.equal(second.manifest.version, "2");
+    openBundles().rollBack(second.id, "crashed");
+
+    const current = await openBundles().select();
+    assert.equal(current.id, first.id);
+    assert.equal(current.pending, false);
+
+    // a version which was rolled back is not installed again
+    assert.equal(
+      await openBundles().install(new URL("manifest.json", baseUrl)),
+      false,
+    );
+  });
+
+  test("rolls back bundles modified after installing", async () => {
+    publish(1, { "index.html": "v1" });
+    await openBundles().install(new URL("manifest.json", baseUrl));
+
+    const bundle = await openBundles().select();
+    await writeFile(join(bundle.dir, "index.html"), "v1, modified");
+
+    assert.equal(await openBundles().select(), null);
+  });
+
+  test("rolls back bundles whose stored manifest was changed", async () => {
+    publish(1, { "index.html": "v1" });
+    await openBundles().install(new URL("manifest.json", baseUrl));
+
+    const bundle = await openBundles().select();
+    const manifestPath = join(dir, `${bundle.id}.json`);
+    const manifest = JSON.parse(await readFile(manifestPath, "utf-8"));
+
+    // point the manifest at a file planted next to the bundle
+    await writeFile(join(bundle.dir, "index.html"), "evil");
+    manifest.files["index.html"] = {
+      size: 4,
+      hash: hashContents(Buffer.from("evil")),
+    };
+    await writeFile(manifestPath, JSON.stringify(manifest));
+
+    assert.equal(await openBundles().select(), null);
+  });
+
+  test("gives up on an update which never confirms", async () => {
+    publish(1, { "index.html": "v1" });
+    await openBundles().install(new URL("manifest.json", baseUrl));
+
+    assert.ok(await openBundles().select());
+    assert.ok(await openBundles().select());
+    assert.equal(await openBundles().select(), null);
+  });
+});
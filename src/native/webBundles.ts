@@ -0,0 +1,498 @@
+import { randomUUID } from "node:crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { mkdir, rename, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+import {
+  type WebManifest,
+  isManifestSignatureValid,
+  isNewerWebBundle,
+  isWebFileValid,
+  verifyWebBundle,
+} from "./webManifest";
+
+// launches an update gets to load successfully before it is rolled back
+const MAX_TRIAL_LAUNCHES = 2;
+
+/**
+ * Manifest published alongside a web bundle
+ */
+type RemoteWebManifest = WebManifest & {
+  version: string;
+  timestamp: number;
+
+  /**
+   * Where files are downloaded from, defaults to the manifest's directory
+   */
+  baseUrl?: string;
+};
+
+/**
+ * Which installed bundles are in use
+ */
+type WebBundleState = {
+  /**
+   * Bundle to load, the newest one installed
+   */
+  current: string | null;
+
+  /**
+   * Last bundle which loaded successfully, kept to roll back to
+   */
+  previous: string | null;
+
+  /**
+   * Whether the current bundle has yet to load successfully
+   */
+  pending: boolean;
+
+  /**
+   * Launches attempted with the pending bundle
+   */
+  launches: number;
+
+  /**
+   * Versions which were rolled back and won't be installed again
+   */
+  failed: string[];
+};
+
+/**
+ * Web bundle installed in the bundles directory
+ */
+export type InstalledWebBundle = {
+  id: string;
+  dir: string;
+  manifest: RemoteWebManifest;
+  pending: boolean;
+};
+
+type WebBundleOptions = {
+  /**
+   * Directory holding the bundles and the state file pointing at them
+   */
+  dir: string;
+
+  /**
+   * PEM key manifests must be signed with, nothing is installed or used without one
+   */
+  publicKey: string | null;
+
+  /**
+   * Manifest of the bundle shipped with the app, updates must be newer
+   */
+  bundledManifest: WebManifest | null;
+
+  /**
+   * Used to download manifests and files
+   */
+  fetch?: (url: string, init?: RequestInit) => Promise<Response>;
+};
+
+/**
+ * Check whether updates may be fetched from a URL, plain HTTP
+ * is only accepted from this machine for testing
+ * @param url URL
+ */
+function isAllowedUrl(url: URL) {
+  return (
+    url.protocol === "https:" ||
+    (url.protocol === "http:" &&
+      ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname))
+  );
+}
+
+/**
+ * Get where the detached signature of a manifest is published
+ * @param manifestUrl Manifest URL
+ */
+function getSignatureUrl(manifestUrl: URL) {
+  const url = new URL(manifestUrl);
+  url.pathname += ".sig";
+  return url;
+}
+
+/**
+ * Check a published manifest is well-formed
+ * @param data Parsed JSON
+ */
+function parseRemoteManifest(data: unknown): RemoteWebManifest {
+  const manifest = data as RemoteWebManifest;
+
+  if (
+    typeof manifest !== "object" ||
+    manifest === null ||
+    manifest.algorithm !== "sha256" ||
+    typeof manifest.version !== "string" ||
+    typeof manifest.timestamp !== "number" ||
+    typeof manifest.files !== "object" ||
+    manifest.files === null ||
+    (manifest.baseUrl !== undefined && typeof manifest.baseUrl !== "string")
+  ) {
+    throw new Error("Malformed update manifest");
+  }
+
+  for (const [key, entry] of Object.entries(manifest.files)) {
+    // keys must stay inside the bundle
+    if (
+      !key ||
+      key.startsWith("/") ||
+      key.includes("\\") ||
+      key.split("/").some((part) => !part || part === "." || part === "..")
+    ) {
+      throw new Error(`Invalid path in update manifest: ${key}`);
+    }
+
+    if (
+      typeof entry?.size !== "number" ||
+      typeof entry?.hash !== "string" ||
+      !/^[0-9a-f]{64}$/.test(entry.hash)
+    ) {
+      throw new Error(`Invalid entry in update manifest: ${key}`);
+    }
+  }
+
+  if (!manifest.files["index.html"]) {
+    throw new Error("Update manifest has no index.html");
+  }
+
+  return manifest;
+}
+
+/**
+ * Signed web bundles installed in a directory, with the state
+ * needed to try an update and roll it back if it doesn't load
+ */
+export class WebBundles {
+  private readonly dir: string;
+  private readonly stateFile: string;
+  private readonly publicKey: string | null;
+  private readonly bundledManifest: WebManifest | null;
+  private readonly fetch: NonNullable<WebBundleOptions["fetch"]>;
+
+  // bundle served during this session, never removed while in use
+  private activeBundleId: string | null = null;
+
+  constructor({
+    dir,
+    publicKey,
+    bundledManifest,
+    fetch = globalThis.fetch,
+  }: WebBundleOptions) {
+    this.dir = dir;
+    this.stateFile = join(dir, "state.json");
+    this.publicKey = publicKey;
+    this.bundledManifest = bundledManifest;
+    this.fetch = fetch;
+  }
+
+  /**
+   * Read the bundle state, falling back to nothing installed
+   */
+  private readState(): WebBundleState {
+    const state: WebBundleState = {
+      current: null,
+      previous: null,
+      pending: false,
+      launches: 0,
+      failed: [],
+    };
+
+    try {
+      return {
+        ...state,
+        ...JSON.parse(readFileSync(this.stateFile, "utf-8")),
+      };
+    } catch {
+      return state;
+    }
+  }
+
+  /**
+   * Replace the state file in one step so it is never partially written
+   * @param state New state
+   */
+  private saveState(state: WebBundleState) {
+    mkdirSync(this.dir, { recursive: true });
+
+    const temporary = `${this.stateFile}.${process.pid}.tmp`;
+    writeFileSync(temporary, JSON.stringify(state, null, "\t"));
+    renameSync(temporary, this.stateFile);
+  }
+
+  /**
+   * Stop using the current bundle and go back to the previous one
+   * @param state State to update
+   * @param reason Why the bundle is being rolled back
+   */
+  private rollBackState(state: WebBundleState, reason: string) {
+    const manifest = this.readManifest(state.current);
+    console.error(
+      `[WebUpdate] Rolling back ${state.current} to ${state.previous ?? "bundled assets"}: ${reason}`,
+    );
+
+    if (manifest && !state.failed.includes(manifest.version)) {
+      state.failed.push(manifest.version);
+    }
+
+    state.current = state.previous;
+    state.previous = null;
+    state.pending = false;
+    state.launches = 0;
+    this.saveState(state);
+  }
+
+  /**
+   * Read the signed manifest an installed bundle was verified against
+   * @param id Bundle ID
+   * @returns Manifest, null if it is missing or its signature doesn't match
+   */
+  private readManifest(id: string | null): RemoteWebManifest | null {
+    if (!id || !this.publicKey) return null;
+
+    try {
+      const data = readFileSync(join(this.dir, `${id}.json`));
+      const signature = readFileSync(join(this.dir, `${id}.json.sig`), "utf-8");
+
+      if (!isManifestSignatureValid(data, signature, this.publicKey)) {
+        console.error(`[WebUpdate] Signature of ${id} does not match`);
+        return null;
+      }
+
+      return parseRemoteManifest(JSON.parse(data.toString("utf-8")));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Delete bundles which are no longer current, previous or in use
+   * @param state Bundle state
+   */
+  private removeUnused(state: WebBundleState) {
+    const keep = new Set(
+      [state.current, state.previous, this.activeBundleId].filter(Boolean),
+    );
+
+    for (const entry of readdirSync(this.dir, { withFileTypes: true })) {
+      const id = entry.isDirectory()
+        ? entry.name
+        : entry.name !== "state.json"
+          ? /^(.+)\.json(?:\.sig)?$/.exec(entry.name)?.[1]
+          : null;
+
+      if (id && !keep.has(id)) {
+        rmSync(join(this.dir, entry.name), { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Pick the installed bundle to load, rolling back updates which
+   * didn't load or fail verification
+   * @returns Bundle to load or null if none are usable
+   */
+  async select(): Promise<InstalledWebBundle | null> {
+    if (!existsSync(this.stateFile)) return null;
+
+    const state = this.readState();
+
+    if (state.pending && state.launches >= MAX_TRIAL_LAUNCHES) {
+      this.rollBackState(
+        state,
+        `did not load after ${state.launches} launches`,
+      );
+    }
+
+    while (state.current) {
+      const id = state.current;
+      const dir = join(this.dir, id);
+      const manifest = this.readManifest(id);
+      const problems = manifest
+        ? await verifyWebBundle(dir, manifest)
+        : [`${id}.json`];
+
+      if (problems.length) {
+        this.rollBackState(
+          state,
+          `${problems.length} file(s) missing or modified`,
+        );
+        continue;
+      }
+
+      if (state.pending) {
+        state.launches++;
+        this.saveState(state);
+      }
+
+      this.activeBundleId = id;
+      return { id, dir, manifest, pending: state.pending };
+    }
+
+    return null;
+  }
+
+  /**
+   * Keep an update once it has loaded successfully
+   * @param id Bundle ID
+   */
+  confirm(id: string) {
+    const state = this.readState();
+    if (state.current !== id || !state.pending) return;
+
+    state.pending = false;
+    state.launches = 0;
+    this.saveState(state);
+    this.removeUnused(state);
+
+    console.info("[WebUpdate] Update loaded successfully:", id);
+  }
+
+  /**
+   * Roll back an update which failed to load
+   * @param id Bundle ID
+   * @param reason Why it failed
+   */
+  rollBack(id: string, reason: string) {
+    const state = this.readState();
+    if (state.current === id) {
+      this.rollBackState(state, reason);
+    }
+
+    if (this.activeBundleId === id) {
+      this.activeBundleId = null;
+    }
+  }
+
+  /**
+   * Download a file, refusing anything but a successful response
+   * @param url URL
+   */
+  private async download(url: URL) {
+    const response = await this.fetch(url.toString(), { cache: "no-store" });
+    if (!response.ok) {
+      throw new Error(`Failed to download ${url}: HTTP ${response.status}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  /**
+   * Download every file of a bundle into a directory, checking each one
+   * @param manifest Published manifest
+   * @param baseUrl Where files are downloaded from
+   * @param dir Directory to download into
+   */
+  private async downloadFiles(
+    manifest: RemoteWebManifest,
+    baseUrl: URL,
+    dir: string,
+  ) {
+    for (const key of Object.keys(manifest.files)) {
+      const data = await this.download(
+        new URL(key.split("/").map(encodeURIComponent).join("/"), baseUrl),
+      );
+
+      if (!isWebFileValid(manifest, key, data)) {
+        throw new Error(`Downloaded ${key} does not match the manifest`);
+      }
+
+      const path = join(dir, ...key.split("/"));
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, data);
+    }
+  }
+
+  /**
+   * Download and install a newer bundle if one is published,
+   * it is used from the next call to `select`
+   * @param manifestUrl URL of the published manifest
+   * @returns Whether an update was installed
+   */
+  async install(manifestUrl: URL) {
+    if (!this.publicKey) {
+      throw new Error("No public key to verify updates with");
+    }
+
+    if (!isAllowedUrl(manifestUrl)) {
+      throw new Error(`Refusing insecure update URL: ${manifestUrl}`);
+    }
+
+    // nothing in the manifest is trusted until its signature is checked
+    const data = await this.download(manifestUrl);
+    const signature = await this.download(getSignatureUrl(manifestUrl));
+    if (
+      !isManifestSignatureValid(
+        data,
+        signature.toString("utf-8"),
+        this.publicKey,
+      )
+    ) {
+      throw new Error("Update manifest signature does not match");
+    }
+
+    const manifest = parseRemoteManifest(JSON.parse(data.toString("utf-8")));
+    const state = this.readState();
+
+    // only install bundles newer than both the installed and bundled ones
+    if (
+      !isNewerWebBundle(manifest, this.readManifest(state.current)) ||
+      !isNewerWebBundle(manifest, this.bundledManifest) ||
+      state.failed.includes(manifest.version)
+    ) {
+      return false;
+    }
+
+    const baseUrl = new URL(manifest.baseUrl ?? ".", manifestUrl);
+    if (!isAllowedUrl(baseUrl)) {
+      throw new Error(`Refusing insecure download URL: ${baseUrl}`);
+    }
+
+    console.info("[WebUpdate] Downloading version", manifest.version);
+
+    const id = `${manifest.version.replace(/[^\w.-]/g, "_")}-${randomUUID().slice(0, 8)}`;
+    const stagingDir = join(this.dir, `.${id}.partial`);
+
+    try {
+      await mkdir(stagingDir, { recursive: true });
+      await this.downloadFiles(manifest, baseUrl, stagingDir);
+
+      // keep the manifest exactly as signed so it can be checked again at startup
+      await writeFile(join(this.dir, `${id}.json`), data);
+      await writeFile(join(this.dir, `${id}.json.sig`), signature);
+
+      // move the finished bundle into place, then point the state at it
+      await rename(stagingDir, join(this.dir, id));
+    } catch (err) {
+      await rm(stagingDir, { recursive: true, force: true });
+      throw err;
+    }
+
+    this.saveState({
+      ...state,
+      current: id,
+      // an unconfirmed bundle is never something to roll back to
+      previous: state.pending ? state.previous : state.current,
+      pending: true,
+      launches: 0,
+    });
+
+    this.removeUnused(this.readState());
+
+    console.info(
+      "[WebUpdate] Installed version",
+      manifest.version,
+      "which will be used from the next launch",
+    );
+
+    return true;
+  }
+}
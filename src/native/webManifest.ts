@@ -0,0 +1,186 @@
+import { createHash, createPublicKey, verify } from "node:crypto";
+import { type Stats, readFileSync, readdirSync } from "node:fs";
+import { readFile, stat } from "node:fs/promises";
+import { join, relative, sep } from "node:path";
+
+/**
+ * Hashes of every file in a web bundle, keyed by path relative
+ * to the bundle root using forward slashes
+ */
+export type WebManifest = {
+  algorithm: "sha256";
+  /**
+   * When the bundle was built, used to pick the newest one
+   */
+  timestamp?: number;
+  files: Record<string, { size: number; hash: string }>;
+};
+
+/**
+ * File read from disk along with its metadata
+ */
+export type WebFile = {
+  data: Buffer;
+  stats: Stats;
+};
+
+// hashes of files read before, reused while their size and modification time are unchanged
+const fileHashes = new Map<
+  string,
+  { size: number; mtimeMs: number; hash: string }
+>();
+
+/**
+ * Hash file contents
+ * @param data File contents
+ */
+export function hashContents(data: Buffer) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Check a detached Ed25519 signature over a manifest
+ * @param data Manifest exactly as published
+ * @param signature Base64 signature
+ * @param publicKey PEM public key the manifest must be signed with
+ */
+export function isManifestSignatureValid(
+  data: Buffer,
+  signature: string,
+  publicKey: string,
+) {
+  try {
+    return verify(
+      null,
+      data,
+      createPublicKey(publicKey),
+      Buffer.from(signature.trim(), "base64"),
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert a path inside the bundle to a manifest key
+ * @param root Bundle root
+ * @param path Absolute path to a file
+ */
+function toManifestKey(root: string, path: string) {
+  return relative(root, path).split(sep).join("/");
+}
+
+/**
+ * List every file below a directory
+ * @param dir Directory
+ */
+function listFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+    entry.isDirectory()
+      ? listFiles(join(dir, entry.name))
+      : entry.isFile()
+        ? [join(dir, entry.name)]
+        : [],
+  );
+}
+
+/**
+ * Hash every file in a web bundle
+ * @param root Bundle root
+ */
+export function createWebManifest(root: string): WebManifest {
+  const files: WebManifest["files"] = {};
+
+  for (const path of listFiles(root).sort()) {
+    const data = readFileSync(path);
+    files[toManifestKey(root, path)] = {
+      size: data.length,
+      hash: hashContents(data),
+    };
+  }
+
+  return { algorithm: "sha256", timestamp: Date.now(), files };
+}
+
+/**
+ * Check whether a bundle was built after another
+ * @param a Manifest of the candidate bundle
+ * @param b Manifest of the bundle to compare against
+ */
+export function isNewerWebBundle(a: WebManifest, b: WebManifest | null) {
+  return (a.timestamp ?? 0) > (b?.timestamp ?? 0);
+}
+
+/**
+ * Check file contents against the manifest
+ * @param manifest Manifest
+ * @param key Path relative to the bundle root
+ * @param data File contents
+ */
+export function isWebFileValid(
+  manifest: WebManifest,
+  key: string,
+  data: Buffer,
+) {
+  const entry = manifest.files[key];
+  return (
+    !!entry && entry.size === data.length && entry.hash === hashContents(data)
+  );
+}
+
+/**
+ * Check a file on disk against the manifest, hashing it only if it
+ * changed since it was last checked
+ * @param manifest Manifest
+ * @param key Path relative to the bundle root
+ * @param path Absolute path to the file
+ * @param file File contents and metadata, if already read
+ */
+export async function verifyWebFile(
+  manifest: WebManifest,
+  key: string,
+  path: string,
+  file?: WebFile,
+) {
+  const entry = manifest.files[key];
+  if (!entry) return false;
+
+  const { size, mtimeMs } = file?.stats ?? (await stat(path));
+
+  // compare sizes first to skip hashing truncated files
+  if (size !== entry.size) return false;
+
+  const cached = fileHashes.get(path);
+  if (cached?.size === size && cached.mtimeMs === mtimeMs) {
+    return cached.hash === entry.hash;
+  }
+
+  const hash = hashContents(file?.data ?? (await readFile(path)));
+  fileHashes.set(path, { size, mtimeMs, hash });
+
+  return hash === entry.hash;
+}
+
+/**
+ * Check a whole web bundle against the manifest
+ * @param root Bundle root
+ * @param manifest Manifest
+ * @returns Paths which are missing or don't match, empty if the bundle is intact
+ */
+export async function verifyWebBundle(root: string, manifest: WebManifest) {
+  const problems: string[] = [];
+
+  for (const key of Object.keys(manifest.files)) {
+    try {
+      if (
+        !(await verifyWebFile(manifest, key, join(root, ...key.split("/"))))
+      ) {
+        problems.push(key);
+      }
+    } catch {
+      problems.push(key);
+    }
+  }
+
+  return problems;
+}
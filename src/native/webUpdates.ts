@@ -0,0 +1,74 @@
+import { join } from "node:path";
+
+import { app, net } from "electron";
+
+import { config } from "./config";
+import { WebBundles } from "./webBundles";
+
+// first check shortly after startup, then periodically
+const CHECK_DELAY = 60 * 1000;
+const CHECK_INTERVAL = 6 * 60 * 60 * 1000;
+
+// downloaded bundles and the state file pointing at them
+const bundles = new WebBundles({
+  dir: join(app.getPath("userData"), "web-bundles"),
+  publicKey: WEB_UPDATE_PUBLIC_KEY,
+  bundledManifest: WEB_DIST_MANIFEST,
+  fetch: (url, init) => net.fetch(url, init),
+});
+
+// avoid overlapping checks
+let isChecking = false;
+
+/**
+ * Pick the installed bundle to load, rolling back updates which
+ * didn't load or fail verification
+ * @returns Bundle to load or null if none are usable
+ */
+export function selectInstalledWebBundle() {
+  return bundles.select();
+}
+
+/**
+ * Keep an update once it has loaded successfully
+ * @param id Bundle ID
+ */
+export function confirmWebBundle(id: string) {
+  bundles.confirm(id);
+}
+
+/**
+ * Roll back an update which failed to load
+ * @param id Bundle ID
+ * @param reason Why it failed
+ */
+export function rollBackWebBundle(id: string, reason: string) {
+  bundles.rollBack(id, reason);
+}
+
+/**
+ * Download and install a newer web bundle if one is published,
+ * it is used from the next launch
+ * @returns Whether an update was installed
+ */
+export async function checkForWebUpdate() {
+  if (!config.webUpdateUrl || isChecking) return false;
+  isChecking = true;
+
+  try {
+    return await bundles.install(new URL(config.webUpdateUrl));
+  } catch (err) {
+    console.error("[WebUpdate] Update check failed:", err);
+    return false;
+  } finally {
+    isChecking = false;
+  }
+}
+
+/**
+ * Check for web bundle updates in the background
+ */
+export function startWebUpdates() {
+  setTimeout(checkForWebUpdate, CHECK_DELAY);
+  setInterval(checkForWebUpdate, CHECK_INTERVAL);
+}
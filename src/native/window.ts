@@ -2,19 +2,49 @@ import { join } from "node:path";
 
 import {
   BrowserWindow,
-  Menu,
-  MenuItem,
+  BrowserWindowConstructorOptions,
+  Session,
   app,
   ipcMain,
   nativeImage,
-  net,
   protocol,
+  session,
 } from "electron";
 
 import windowIconAsset from "../../assets/desktop/icon.png?asset";
 
 import { config } from "./config";
+import { attachContextMenu } from "./contextMenu";
+import { attachCrashRecovery } from "./crashRecovery";
+import { attachDownloads } from "./downloads";
+import { attachFindInPage } from "./findInPage";
+import { getActiveInstance } from "./instances";
+import { createStaticHandler } from "./localProtocol";
+import { attachPermissions } from "./permissions";
+import { closePopoutWindows, trackWindowFocus } from "./popout";
+import { getActiveProfile, getProfileSession } from "./profiles";
+import { attachPushToTalk } from "./pushToTalk";
+import { attachScreenShare } from "./screenShare";
+import { handleShortcutInput } from "./shortcuts";
+import { applySpellcheckerSettings } from "./spellchecker";
 import { updateTrayMenu } from "./tray";
+import { type InstalledWebBundle } from "./webBundles";
+import {
+  type WebManifest,
+  isNewerWebBundle,
+  verifyWebBundle,
+} from "./webManifest";
+import {
+  confirmWebBundle,
+  rollBackWebBundle,
+  selectInstalledWebBundle,
+} from "./webUpdates";
+import {
+  getDisplayLayoutKey,
+  getRestoreBounds,
+  trackWindowState,
+} from "./windowState";
+import { restoreZoomLevel } from "./zoom";
 
 // global reference to main window
 export let mainWindow: BrowserWindow;
@@ -22,9 +52,24 @@ export let mainWindow: BrowserWindow;
 // currently in-use build
 export let BUILD_URL: URL;
 
+// used when no trusted local web assets are available
+const REMOTE_BUILD_URL = "https://beta.revolt.chat";
+
 // Local web assets directory
 let localWebDir: string | null = null;
 
+// installed update being served from localWebDir, if any
+let localWebBundle: InstalledWebBundle | null = null;
+
+// trusted web-dist shipped with the app
+let bundledWebDir: string | null = null;
+
+// serves localWebDir over stoat://
+let localWebHandler: ReturnType<typeof createStaticHandler> | null = null;
+
+// sessions the stoat:// handler is registered with
+const localProtocolSessions = new WeakSet<Session>();
+
 protocol.registerSchemesAsPrivileged([
   {
     scheme: "stoat",
@@ -38,7 +83,7 @@ protocol.registerSchemesAsPrivileged([
   },
 ]);
 
-export function initBuildUrl() {
+export async function initBuildUrl() {
   const forceServer = app.commandLine.getSwitchValue("force-server");
 
   // Try to find local web assets in multiple locations
@@ -57,69 +102,234 @@ export function initBuildUrl() {
 
   for (const testPath of possiblePaths) {
     const indexPath = path.join(testPath, "index.html");
-    if (fs.existsSync(indexPath)) {
-      localWebDir = testPath;
+    if (fs.existsSync(indexPath) && (await isWebDirTrusted(testPath))) {
+      bundledWebDir = testPath;
       console.log("[Window] Found local web assets at:", testPath);
       break;
     }
   }
 
-  if (!forceServer && localWebDir) {
-    // Setup protocol handler for local files
-    setupLocalProtocol();
+  // prefer a downloaded update if it is newer than the bundled assets,
+  // self-hosted instances serve their own client so don't try one
+  const installed =
+    forceServer || getActiveInstance()
+      ? null
+      : await selectInstalledWebBundle();
+  if (
+    installed &&
+    (!bundledWebDir || isNewerWebBundle(installed.manifest, WEB_DIST_MANIFEST))
+  ) {
+    console.log("[Window] Using web client update:", installed.id);
+    useLocalWebAssets(installed.dir, installed.manifest, installed);
+  } else if (bundledWebDir) {
+    useLocalWebAssets(bundledWebDir, WEB_DIST_MANIFEST);
+  }
+
+  selectBuildUrl();
+}
+
+/**
+ * Parse the URL to load the client from
+ * @param url URL
+ * @returns URL, or the official client if it isn't valid
+ */
+function parseBuildUrl(url: string) {
+  try {
+    return new URL(url);
+  } catch {
+    console.error(
+      `[Window] Invalid server URL ${url}, falling back to ${REMOTE_BUILD_URL}`,
+    );
+    return new URL(REMOTE_BUILD_URL);
+  }
+}
+
+/**
+ * Pick the build URL from the command line, the selected instance
+ * or the local web assets, in that order
+ */
+export function selectBuildUrl() {
+  const forceServer = app.commandLine.getSwitchValue("force-server");
+
+  // only saved instances can be selected, see `selectInstance`
+  const server = getActiveInstance()?.url;
+  if (config.server && !server) {
+    console.warn("[Window] Ignoring unknown server:", config.server);
+  }
+
+  if (!forceServer && !server && localWebDir) {
+    registerLocalProtocol(session.defaultSession);
     BUILD_URL = new URL("stoat://-/index.html");
     console.log(
       "[Window] Loading from local web assets via custom protocol:",
       localWebDir,
     );
   } else {
-    BUILD_URL = new URL(
+    BUILD_URL = parseBuildUrl(
       forceServer ||
-        /*MAIN_WINDOW_VITE_DEV_SERVER_URL ??*/ "https://beta.revolt.chat",
+        server ||
+        /*MAIN_WINDOW_VITE_DEV_SERVER_URL ??*/ REMOTE_BUILD_URL,
     );
     console.log("[Window] Loading from remote URL:", BUILD_URL.toString());
     if (forceServer) {
       console.log("[Window] (forced server via --force-server flag)");
+    } else if (server) {
+      console.log("[Window] (self-hosted instance)");
     } else if (!localWebDir) {
       console.log("[Window] (local web assets not found)");
     }
   }
 }
 
-function setupLocalProtocol() {
-  // Handle stoat:// protocol
-  protocol.handle("stoat", (request) => {
-    const url = new URL(request.url);
-    let pathname = url.pathname;
+/**
+ * Load the client in the main window
+ */
+function loadClient() {
+  mainWindow.loadURL(BUILD_URL.toString()).catch(() => {
+    // failures are handled by did-fail-load
+  });
+}
 
-    // Default to index.html for root
-    if (!pathname || pathname === "/" || pathname === "-/") {
-      pathname = "/index.html";
-    }
+/**
+ * Load the client of the selected instance in the main window
+ */
+export function switchServer() {
+  selectBuildUrl();
 
-    // Remove leading dash if present (stoat://-/path -> /path)
-    if (pathname.startsWith("/-/")) {
-      pathname = pathname.slice(2);
-    }
+  // pop-outs belong to the previous client
+  closePopoutWindows();
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    loadClient();
+  }
+}
 
-    if (!localWebDir) {
-      throw new Error("Local web assets not found");
-    }
+/**
+ * Check whether the local web assets can replace the remote client
+ */
+export function canLoadLocalClient() {
+  // self-hosted instances need their own client
+  return (
+    !!localWebDir && BUILD_URL.protocol !== "stoat:" && !getActiveInstance()
+  );
+}
+
+/**
+ * Load the local web assets instead of the remote client for this session
+ */
+export function loadLocalClient() {
+  if (!canLoadLocalClient()) return;
+
+  console.log(
+    "[Window] Loading local web assets instead of",
+    BUILD_URL.toString(),
+  );
 
-    // Construct full file path
-    const filePath = join(localWebDir, pathname);
+  registerLocalProtocol(session.defaultSession);
+  registerLocalProtocol(getProfileSession(getActiveProfile().id));
+  BUILD_URL = new URL("stoat://-/index.html");
 
-    // Security check: ensure path is within localWebDir
-    if (!filePath.startsWith(localWebDir)) {
-      console.error("[Protocol] Blocked access outside web-dist:", pathname);
-      return new Response("Forbidden", { status: 403 });
+  // pop-outs belong to the previous client
+  closePopoutWindows();
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    loadClient();
+  }
+}
+
+/**
+ * Check local web assets against the manifest taken at build time,
+ * the hashes are kept so files aren't hashed again when served
+ * @param dir Web assets directory
+ */
+async function isWebDirTrusted(dir: string) {
+  if (!WEB_DIST_MANIFEST) {
+    // development builds may not have bundled any assets
+    if (app.isPackaged) {
+      console.error("[Integrity] No manifest, refusing local web assets");
+      return false;
     }
 
-    // Serve the file
-    return net.fetch("file://" + filePath);
+    console.warn("[Integrity] No manifest, loading unverified assets:", dir);
+    return true;
+  }
+
+  const problems = await verifyWebBundle(dir, WEB_DIST_MANIFEST);
+  if (problems.length) {
+    console.error(
+      `[Integrity] Refusing web assets at ${dir}, ${problems.length} file(s) missing or modified:`,
+      problems.slice(0, 10),
+    );
+
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Serve web assets from a directory over stoat://
+ * @param dir Web assets directory
+ * @param manifest Manifest files are checked against
+ * @param bundle Installed update the directory belongs to
+ */
+function useLocalWebAssets(
+  dir: string,
+  manifest: WebManifest | null,
+  bundle: InstalledWebBundle | null = null,
+) {
+  localWebDir = dir;
+  localWebBundle = bundle;
+  localWebHandler = createStaticHandler(dir, {
+    manifest,
+    onInvalidFile: (key) =>
+      setImmediate(() => fallBackFromLocal(`${key} failed verification`)),
   });
 }
 
+/**
+ * Stop serving the current local web assets, rolling back to the bundled
+ * assets if an update was in use or loading the remote client otherwise
+ * @param reason Why the local assets can't be used
+ */
+function fallBackFromLocal(reason: string) {
+  if (!localWebDir) return;
+
+  if (localWebBundle) {
+    rollBackWebBundle(localWebBundle.id, reason);
+  }
+
+  if (localWebBundle && bundledWebDir) {
+    console.error(`[Integrity] ${reason}, falling back to bundled assets`);
+    useLocalWebAssets(bundledWebDir, WEB_DIST_MANIFEST);
+  } else {
+    console.error(`[Integrity] ${reason}, falling back to ${REMOTE_BUILD_URL}`);
+    localWebDir = null;
+    localWebBundle = null;
+    localWebHandler = null;
+    BUILD_URL = new URL(REMOTE_BUILD_URL);
+  }
+
+  // pop-outs are reopened by the client as needed
+  closePopoutWindows();
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    loadClient();
+  }
+}
+
+/**
+ * Serve the local web assets to windows using a session
+ * @param session Session to register the stoat:// handler with
+ */
+export function registerLocalProtocol(session: Session) {
+  if (!localWebHandler || localProtocolSessions.has(session)) return;
+
+  localProtocolSessions.add(session);
+  session.protocol.handle("stoat", (request) =>
+    localWebHandler
+      ? localWebHandler(request)
+      : new Response("Not Found", { status: 404 }),
+  );
+}
+
 // internal window state
 let shouldQuit = false;
 
@@ -129,15 +339,19 @@ const windowIcon = nativeImage.createFromDataURL(windowIconAsset);
 // windowIcon.setTemplateImage(true);
 
 /**
- * Create the main application window
+ * Create a window for the web client, sharing the preload, session
+ * and input handling with every other application window
+ * @param options Window options
  */
-export function createMainWindow() {
-  // (CLI arg --hidden or config)
-  const startHidden =
-    app.commandLine.hasSwitch("hidden") || config.startMinimisedToTray;
-
-  // create the window
-  mainWindow = new BrowserWindow({
+export function createAppWindow(options: BrowserWindowConstructorOptions) {
+  // each profile keeps its own cookies, storage and cache
+  const profileSession = getProfileSession(getActiveProfile().id);
+  registerLocalProtocol(profileSession);
+  attachDownloads(profileSession);
+  attachPermissions(profileSession);
+  attachScreenShare(profileSession);
+
+  const window = new BrowserWindow({
     minWidth: 300,
     minHeight: 300,
     width: 1280,
@@ -145,10 +359,11 @@ export function createMainWindow() {
     backgroundColor: "#191919",
     frame: !config.customFrame,
     icon: windowIcon,
-    show: !startHidden,
+    ...options,
     webPreferences: {
       // relative to `.vite/build`
       preload: join(__dirname, "preload.js"),
+      session: profileSession,
       contextIsolation: true,
       nodeIntegration: false,
       spellcheck: true,
@@ -159,161 +374,137 @@ export function createMainWindow() {
   });
 
   // hide the options
-  mainWindow.setMenu(null);
+  window.setMenu(null);
 
-  // restore last position if it was moved previously
-  if (config.windowState.x > 0 || config.windowState.y > 0) {
-    mainWindow.setPosition(
-      config.windowState.x ?? 0,
-      config.windowState.y ?? 0,
-    );
-  }
+  // sessions don't share the spellchecker settings
+  applySpellcheckerSettings(window.webContents.session);
 
-  // restore last size if it was resized previously
-  if (config.windowState.width > 0 && config.windowState.height > 0) {
-    mainWindow.setSize(
-      config.windowState.width ?? 1280,
-      config.windowState.height ?? 720,
-    );
-  }
+  // badges, tray and PTT follow the focused window
+  trackWindowFocus(window);
+  attachPushToTalk(window);
 
-  // maximise the window if it was maximised before
-  if (config.windowState.isMaximised) {
-    mainWindow.maximize();
-  }
+  // forward find-in-page results to the client
+  attachFindInPage(window);
 
-  // load the entrypoint
-  mainWindow.loadURL(BUILD_URL.toString());
+  // handle keyboard shortcuts (zoom, reload, DevTools, ...)
+  window.webContents.on("before-input-event", (event, input) =>
+    handleShortcutInput(window, event, input),
+  );
 
-  // minimise window to tray
-  mainWindow.on("close", (event) => {
-    if (!shouldQuit && config.minimiseToTray) {
-      event.preventDefault();
-      mainWindow.hide();
-    }
+  // send the config and restore the saved zoom level
+  window.webContents.on("did-finish-load", () => {
+    config.sync();
+    restoreZoomLevel(window);
   });
 
-  // update tray menu when window is shown/hidden
-  mainWindow.on("show", updateTrayMenu);
-  mainWindow.on("hide", updateTrayMenu);
+  // editing, link, image and spellchecker actions
+  attachContextMenu(window);
 
-  // keep track of window state
-  function generateState() {
-    config.windowState = {
-      x: mainWindow.getPosition()[0],
-      y: mainWindow.getPosition()[1],
-      width: mainWindow.getSize()[0],
-      height: mainWindow.getSize()[1],
-      isMaximised: mainWindow.isMaximized(),
-    };
-  }
+  return window;
+}
 
-  mainWindow.on("maximize", generateState);
-  mainWindow.on("unmaximize", generateState);
-  mainWindow.on("moved", generateState);
-  mainWindow.on("resized", generateState);
+/**
+ * Create the main application window
+ */
+export function createMainWindow() {
+  // (CLI arg --hidden or config)
+  const startHidden =
+    app.commandLine.hasSwitch("hidden") || config.startMinimisedToTray;
 
-  // Handle keyboard shortcuts (zoom + DevTools)
-  mainWindow.webContents.on("before-input-event", (event, input) => {
-    // Zoom in with Ctrl+= or Ctrl++
-    if (input.control && (input.key === "=" || input.key === "+")) {
-      event.preventDefault();
-      mainWindow.webContents.setZoomLevel(
-        mainWindow.webContents.getZoomLevel() + 1,
-      );
-      return;
-    }
+  // prefer geometry saved for this display setup
+  const layout = getDisplayLayoutKey();
+  const state = config.windowStates[layout] ?? config.windowState;
 
-    // Zoom out with Ctrl+-
-    if (input.control && input.key === "-") {
-      event.preventDefault();
-      mainWindow.webContents.setZoomLevel(
-        mainWindow.webContents.getZoomLevel() - 1,
-      );
-      return;
-    }
+  // create the window
+  mainWindow = createAppWindow({
+    show: !startHidden,
+    ...getRestoreBounds(state),
+  });
 
-    // Reset zoom with Ctrl+0
-    if (input.control && input.key === "0") {
-      event.preventDefault();
-      mainWindow.webContents.setZoomLevel(0);
-      return;
-    }
+  // maximise the window if it was maximised before
+  if (state.isMaximised) {
+    mainWindow.maximize();
+  }
 
-    // Reload with F5 or Ctrl+R
-    if (
-      input.key === "F5" ||
-      ((input.control || input.meta) && input.key.toLowerCase() === "r")
-    ) {
-      event.preventDefault();
-      mainWindow.webContents.reload();
-      return;
-    }
+  // load the entrypoint
+  loadClient();
 
-    // Toggle DevTools with F12
-    if (input.key === "F12" && !input.control && !input.shift && !input.alt) {
-      event.preventDefault();
-      mainWindow.webContents.toggleDevTools();
+  // reload the client if it crashes, hangs or fails to load,
+  // a pending web client update is rolled back instead
+  attachCrashRecovery(mainWindow, () => !localWebBundle?.pending);
+
+  // keep a web client update once it loads, roll it back if it doesn't
+  mainWindow.webContents.on("did-finish-load", () => {
+    // the recovery page doesn't count as loading successfully
+    if (mainWindow.webContents.getURL().startsWith("data:")) return;
+
+    if (localWebBundle?.pending) {
+      confirmWebBundle(localWebBundle.id);
+      localWebBundle.pending = false;
     }
   });
 
-  // send the config
-  mainWindow.webContents.on("did-finish-load", () => config.sync());
-
-  // configure spellchecker context menu
-  mainWindow.webContents.on("context-menu", (_, params) => {
-    const menu = new Menu();
-
-    // add all suggestions
-    for (const suggestion of params.dictionarySuggestions) {
-      menu.append(
-        new MenuItem({
-          label: suggestion,
-          click: () => mainWindow.webContents.replaceMisspelling(suggestion),
-        }),
-      );
-    }
+  mainWindow.webContents.on(
+    "did-fail-load",
+    (_, errorCode, errorDescription, _url, isMainFrame) => {
+      if (isMainFrame && localWebBundle?.pending) {
+        fallBackFromLocal(`Update failed to load: ${errorDescription}`);
+      }
+    },
+  );
 
-    // allow users to add the misspelled word to the dictionary
-    if (params.misspelledWord) {
-      menu.append(
-        new MenuItem({
-          label: "Add to dictionary",
-          click: () =>
-            mainWindow.webContents.session.addWordToSpellCheckerDictionary(
-              params.misspelledWord,
-            ),
-        }),
-      );
+  mainWindow.webContents.on("render-process-gone", (_, details) => {
+    if (localWebBundle?.pending) {
+      fallBackFromLocal(`Update crashed the renderer: ${details.reason}`);
     }
+  });
 
-    // add an option to toggle spellchecker
-    menu.append(
-      new MenuItem({
-        label: "Toggle spellcheck",
-        click() {
-          config.spellchecker = !config.spellchecker;
-        },
-      }),
-    );
-
-    // show menu if we've generated enough entries
-    if (menu.items.length > 0) {
-      menu.popup();
+  // minimise window to tray
+  mainWindow.on("close", (event) => {
+    if (!shouldQuit && config.minimiseToTray) {
+      event.preventDefault();
+      mainWindow.hide();
     }
   });
 
-  // push world events to the window
-  ipcMain.on("minimise", () => mainWindow.minimize());
-  ipcMain.on("maximise", () =>
-    mainWindow.isMaximized() ? mainWindow.unmaximize() : mainWindow.maximize(),
+  // update tray menu when window is shown/hidden
+  mainWindow.on("show", updateTrayMenu);
+  mainWindow.on("hide", updateTrayMenu);
+
+  // keep track of window state
+  trackWindowState(mainWindow, (state) =>
+    config.batch(() => {
+      config.windowState = state;
+      config.windowStates = {
+        ...config.windowStates,
+        [getDisplayLayoutKey()]: state,
+      };
+    }),
   );
-  ipcMain.on("close", () => mainWindow.close());
+
+  // pop-outs belong to the main window's session
+  mainWindow.on("closed", closePopoutWindows);
 
   // let i = 0;
   // setInterval(() => setBadgeCount((++i % 30) + 1), 1000);
 }
 
+// push world events to the window they came from
+ipcMain.on("minimise", (event) =>
+  BrowserWindow.fromWebContents(event.sender)?.minimize(),
+);
+ipcMain.on("maximise", (event) => {
+  const window = BrowserWindow.fromWebContents(event.sender);
+  if (window?.isMaximized()) {
+    window.unmaximize();
+  } else {
+    window?.maximize();
+  }
+});
+ipcMain.on("close", (event) =>
+  BrowserWindow.fromWebContents(event.sender)?.close(),
+);
+
 /**
  * Quit the entire app
  */
@@ -0,0 +1,92 @@
+import { BrowserWindow, Rectangle, screen } from "electron";
+
+// wait for the window to settle before writing state
+const SAVE_DELAY = 500;
+
+/**
+ * Identify the current display setup so geometry can be remembered for
+ * each one, e.g. docked and undocked
+ */
+export function getDisplayLayoutKey() {
+  return screen
+    .getAllDisplays()
+    .map(
+      ({ bounds, scaleFactor }) =>
+        `${bounds.x},${bounds.y},${bounds.width}x${bounds.height}@${scaleFactor}`,
+    )
+    .sort()
+    .join(";");
+}
+
+/**
+ * Fit saved geometry onto the display it overlaps most, or the
+ * nearest display if it is no longer visible at all
+ * @param state Saved window state
+ * @returns Bounds to create the window with or undefined if none were saved
+ */
+export function getRestoreBounds(
+  state: DesktopWindowState | undefined,
+): Rectangle | undefined {
+  if (!(state?.width > 0 && state?.height > 0)) return;
+
+  const { workArea } = screen.getDisplayMatching(state);
+  const width = Math.min(state.width, workArea.width);
+  const height = Math.min(state.height, workArea.height);
+
+  return {
+    x: Math.min(
+      Math.max(state.x, workArea.x),
+      workArea.x + workArea.width - width,
+    ),
+    y: Math.min(
+      Math.max(state.y, workArea.y),
+      workArea.y + workArea.height - height,
+    ),
+    width,
+    height,
+  };
+}
+
+/**
+ * Save a window's geometry whenever it changes, writes are debounced
+ * and the normal bounds are kept while the window is maximised
+ * @param window Window to track
+ * @param save Persist the state
+ */
+export function trackWindowState(
+  window: BrowserWindow,
+  save: (state: DesktopWindowState) => void,
+) {
+  let timeout: NodeJS.Timeout | undefined;
+
+  function flush() {
+    clearTimeout(timeout);
+    timeout = undefined;
+
+    if (window.isDestroyed()) return;
+
+    const bounds = window.getNormalBounds();
+    save({
+      x: bounds.x,
+      y: bounds.y,
+      width: bounds.width,
+      height: bounds.height,
+      isMaximised: window.isMaximized(),
+    });
+  }
+
+  function schedule() {
+    clearTimeout(timeout);
+    timeout = setTimeout(flush, SAVE_DELAY);
+  }
+
+  // "move" and "resize" fire continuously but, unlike
+  // "moved" and "resized", are emitted on every platform
+  window.on("maximize", schedule);
+  window.on("unmaximize", schedule);
+  window.on("move", schedule);
+  window.on("resize", schedule);
+
+  // write anything pending before the window goes away
+  window.on("close", flush);
+}
@@ -0,0 +1,53 @@
+import { BrowserWindow, ipcMain } from "electron";
+
+import { config } from "./config";
+import { getAppWindows } from "./popout";
+import { BUILD_URL } from "./window";
+
+// range Chromium accepts for zoom levels
+const MIN_ZOOM_LEVEL = -8;
+const MAX_ZOOM_LEVEL = 9;
+
+/**
+ * Key zoom levels are stored under, `URL.origin` is opaque for `stoat://`
+ */
+function getZoomKey() {
+  return `${BUILD_URL.protocol}//${BUILD_URL.host}`;
+}
+
+/**
+ * Get the saved zoom level for the current build URL
+ */
+export function getZoomLevel() {
+  return config.zoomLevels[getZoomKey()] ?? 0;
+}
+
+/**
+ * Change and save the zoom level for the current build URL
+ * @param level Zoom level, 0 is 100% and each step scales by 20%
+ * @returns Zoom level that was applied
+ */
+export function setZoomLevel(level: number) {
+  const clamped = Math.min(
+    Math.max(Number.isFinite(level) ? level : 0, MIN_ZOOM_LEVEL),
+    MAX_ZOOM_LEVEL,
+  );
+
+  config.zoomLevels = { ...config.zoomLevels, [getZoomKey()]: clamped };
+  getAppWindows().forEach(restoreZoomLevel);
+
+  return clamped;
+}
+
+/**
+ * Apply the saved zoom level to a window
+ * @param window Application window
+ */
+export function restoreZoomLevel(window: BrowserWindow) {
+  if (!window.webContents.isDestroyed()) {
+    window.webContents.setZoomLevel(getZoomLevel());
+  }
+}
+
+ipcMain.handle("getZoom", () => getZoomLevel());
+ipcMain.handle("setZoom", (_, level: number) => setZoomLevel(level));
@@ -1,3 +1,6 @@
 import "./world/config";
+import "./world/instances";
+import "./world/profiles";
 import "./world/pushToTalk";
+import "./world/recovery";
 import "./world/window";
@@ -1,16 +1,71 @@
 import { contextBridge, ipcRenderer } from "electron";
 
+type ChangeCallback = (newValue: unknown, oldValue: unknown) => void;
+
 let config: DesktopConfig;
+let lockedKeys: (keyof DesktopConfig | "autostart")[] = [];
+const changeCallbacks = new Map<string, Set<ChangeCallback>>();
+
+ipcRenderer.on("config", (_, data, locked) => {
+  config = data;
+  lockedKeys = locked;
+});
 
-ipcRenderer.on("config", (_, data) => (config = data));
+ipcRenderer.on("config-changed", (_, changes: ConfigChange[]) => {
+  for (const { key, oldValue, newValue } of changes) {
+    changeCallbacks.get(key)?.forEach((cb) => {
+      try {
+        cb(newValue, oldValue);
+      } catch (err) {
+        console.error("[Config] Error in change callback:", err);
+      }
+    });
+  }
+});
 
 contextBridge.exposeInMainWorld("desktopConfig", {
-  get: () => config,
-  set: (config: DesktopConfig) => ipcRenderer.send("config", config),
+  get: () => ({ ...config, lockedKeys }),
+  set: (config: Partial<DesktopConfig>) => {
+    // updates are often built from `get()`, which adds the locked keys
+    const update: Partial<DesktopConfig> & { lockedKeys?: unknown } = {
+      ...config,
+    };
+    delete update.lockedKeys;
+
+    return ipcRenderer.invoke("config", update) as Promise<ConfigSetResult>;
+  },
+
+  /**
+   * Subscribe to changes of a single key
+   */
+  onChange(key: keyof DesktopConfig, callback: ChangeCallback) {
+    if (!changeCallbacks.has(key)) {
+      changeCallbacks.set(key, new Set());
+    }
+
+    changeCallbacks.get(key).add(callback);
+  },
+
+  /**
+   * Unsubscribe from changes of a single key
+   */
+  offChange(key: keyof DesktopConfig, callback: ChangeCallback) {
+    changeCallbacks.get(key)?.delete(callback);
+  },
+
   getAutostart() {
     return ipcRenderer.invoke("getAutostart") as Promise<boolean>;
   },
   setAutostart(value: boolean) {
     return ipcRenderer.invoke("setAutostart", value) as Promise<boolean>;
   },
+  exportSettings() {
+    return ipcRenderer.invoke("exportSettings") as Promise<string>;
+  },
+  importSettings(json: string) {
+    return ipcRenderer.invoke(
+      "importSettings",
+      json,
+    ) as Promise<SettingsImportResult>;
+  },
 });
@@ -0,0 +1,23 @@
+import { contextBridge, ipcRenderer } from "electron";
+
+contextBridge.exposeInMainWorld("instances", {
+  list() {
+    return ipcRenderer.invoke("getInstances") as Promise<{
+      instances: DesktopInstance[];
+      server: string;
+    }>;
+  },
+  add(url: string, name?: string) {
+    return ipcRenderer.invoke(
+      "addInstance",
+      url,
+      name,
+    ) as Promise<DesktopInstance>;
+  },
+  remove(url: string) {
+    return ipcRenderer.invoke("removeInstance", url) as Promise<void>;
+  },
+  select(url: string) {
+    return ipcRenderer.invoke("selectInstance", url) as Promise<void>;
+  },
+});
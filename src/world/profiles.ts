@@ -0,0 +1,20 @@
+import { contextBridge, ipcRenderer } from "electron";
+
+contextBridge.exposeInMainWorld("profiles", {
+  list() {
+    return ipcRenderer.invoke("getProfiles") as Promise<{
+      profiles: DesktopProfile[];
+      activeProfile: string;
+    }>;
+  },
+  add(name: string) {
+    return ipcRenderer.invoke("addProfile", name) as Promise<DesktopProfile>;
+  },
+  rename(id: string, name: string) {
+    return ipcRenderer.invoke("renameProfile", id, name) as Promise<void>;
+  },
+  remove(id: string) {
+    return ipcRenderer.invoke("removeProfile", id) as Promise<void>;
+  },
+  switch: (id: string) => ipcRenderer.send("switchProfile", id),
+});
@@ -0,0 +1,16 @@
+import { contextBridge, ipcRenderer } from "electron";
+
+contextBridge.exposeInMainWorld("recovery", {
+  reload() {
+    ipcRenderer.send("recoveryReload");
+  },
+  loadLocalClient() {
+    ipcRenderer.send("recoveryLoadLocalClient");
+  },
+  openLogs() {
+    ipcRenderer.send("recoveryOpenLogs");
+  },
+  restartInSafeMode() {
+    ipcRenderer.send("recoveryRestartInSafeMode");
+  },
+});
@@ -2,6 +2,34 @@ import { contextBridge, ipcRenderer } from "electron";
 
 import { version } from "../../package.json";
 
+const findRequestedCallbacks = new Set<() => void>();
+const findResultCallbacks = new Set<(result: DesktopFindResult) => void>();
+const deepLinkCallbacks = new Set<(link: DesktopDeepLink) => void>();
+const downloadCallbacks = new Set<(download: DesktopDownload) => void>();
+
+// links which arrived before the client subscribed
+const queuedDeepLinks: DesktopDeepLink[] = [];
+
+ipcRenderer.on("findRequested", () =>
+  findRequestedCallbacks.forEach((cb) => cb()),
+);
+
+ipcRenderer.on("findResult", (_, result: DesktopFindResult) =>
+  findResultCallbacks.forEach((cb) => cb(result)),
+);
+
+ipcRenderer.on("deepLink", (_, link: DesktopDeepLink) => {
+  if (deepLinkCallbacks.size) {
+    deepLinkCallbacks.forEach((cb) => cb(link));
+  } else {
+    queuedDeepLinks.push(link);
+  }
+});
+
+ipcRenderer.on("downloadUpdated", (_, download: DesktopDownload) =>
+  downloadCallbacks.forEach((cb) => cb(download)),
+);
+
 contextBridge.exposeInMainWorld("native", {
   versions: {
     node: () => process.versions.node,
@@ -15,4 +43,66 @@ contextBridge.exposeInMainWorld("native", {
   close: () => ipcRenderer.send("close"),
 
   setBadgeCount: (count: number) => ipcRenderer.send("setBadgeCount", count),
+
+  openWindow: (key: string, path: string) =>
+    ipcRenderer.invoke("openWindow", key, path) as Promise<void>,
+  getShortcuts: () =>
+    ipcRenderer.invoke("getShortcuts") as Promise<DesktopShortcut[]>,
+
+  getZoom: () => ipcRenderer.invoke("getZoom") as Promise<number>,
+  setZoom: (level: number) =>
+    ipcRenderer.invoke("setZoom", level) as Promise<number>,
+
+  findInPage: (text: string, options?: DesktopFindOptions) =>
+    ipcRenderer.send("findInPage", text, options),
+  stopFindInPage: (action?: string) =>
+    ipcRenderer.send("stopFindInPage", action),
+  onFindRequested: (callback: () => void) =>
+    findRequestedCallbacks.add(callback),
+  offFindRequested: (callback: () => void) =>
+    findRequestedCallbacks.delete(callback),
+  onFindResult: (callback: (result: DesktopFindResult) => void) =>
+    findResultCallbacks.add(callback),
+  offFindResult: (callback: (result: DesktopFindResult) => void) =>
+    findResultCallbacks.delete(callback),
+
+  onDeepLink: (callback: (link: DesktopDeepLink) => void) => {
+    deepLinkCallbacks.add(callback);
+    queuedDeepLinks.splice(0).forEach((link) => callback(link));
+  },
+  offDeepLink: (callback: (link: DesktopDeepLink) => void) =>
+    deepLinkCallbacks.delete(callback),
+
+  getDownloads: () =>
+    ipcRenderer.invoke("getDownloads") as Promise<DesktopDownload[]>,
+  onDownloadUpdated: (callback: (download: DesktopDownload) => void) =>
+    downloadCallbacks.add(callback),
+  offDownloadUpdated: (callback: (download: DesktopDownload) => void) =>
+    downloadCallbacks.delete(callback),
+  cancelDownload: (id: string) =>
+    ipcRenderer.invoke("cancelDownload", id) as Promise<void>,
+  openDownload: (id: string) =>
+    ipcRenderer.invoke("openDownload", id) as Promise<void>,
+  showDownloadInFolder: (id: string) =>
+    ipcRenderer.invoke("showDownloadInFolder", id) as Promise<void>,
+  clearDownloads: () => ipcRenderer.invoke("clearDownloads") as Promise<void>,
+
+  getPermissions: () =>
+    ipcRenderer.invoke("getPermissions") as Promise<DesktopPermissionGrant[]>,
+  revokePermission: (origin: string, permission?: string) =>
+    ipcRenderer.invoke("revokePermission", origin, permission) as Promise<void>,
+
+  getScreenShareSources: () =>
+    ipcRenderer.invoke("getScreenShareSources") as Promise<
+      DesktopScreenShareSource[]
+    >,
+  selectScreenShareSource: (id: string | null, audio?: boolean) =>
+    ipcRenderer.invoke("selectScreenShareSource", id, audio) as Promise<void>,
+
+  getSpellcheckerLanguages: () =>
+    ipcRenderer.invoke("getSpellcheckerLanguages") as Promise<string[]>,
+  getDictionaryWords: () =>
+    ipcRenderer.invoke("getDictionaryWords") as Promise<string[]>,
+  removeDictionaryWord: (word: string) =>
+    ipcRenderer.invoke("removeDictionaryWord", word) as Promise<boolean>,
 });
@@ -1,6 +1,21 @@
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
 import { defineConfig } from "vite";
 
+import { createWebManifest } from "./src/native/webManifest";
+
+// hashes of the bundled web client, checked before any of it is served
+const webDist = resolve(__dirname, "web-dist");
+const webManifest = existsSync(webDist) ? createWebManifest(webDist) : null;
+
+// key web client updates must be signed with, updates are disabled without one
+const webUpdatePublicKey = process.env.WEB_UPDATE_PUBLIC_KEY || null;
+
 export default defineConfig({
+  define: {
+    WEB_DIST_MANIFEST: JSON.stringify(webManifest),
+    WEB_UPDATE_PUBLIC_KEY: JSON.stringify(webUpdatePublicKey),
+  },
   build: {
     rollupOptions: {
       external: [
@@ -0,0 +1,33 @@
+import { readdirSync } from "node:fs";
+import { basename, resolve } from "node:path";
+import { defineConfig } from "vite";
+
+// tests live next to the modules they cover
+const testFiles = readdirSync(resolve(__dirname, "src/native"), {
+  recursive: true,
+})
+  .map(String)
+  .filter((file) => file.endsWith(".test.ts"))
+  .map((file) => resolve(__dirname, "src/native", file));
+
+// build the tests for node's test runner, which can't load TypeScript
+export default defineConfig({
+  define: {
+    WEB_DIST_MANIFEST: "null",
+    WEB_UPDATE_PUBLIC_KEY: "null",
+  },
+  build: {
+    ssr: true,
+    outDir: ".vite/test",
+    emptyOutDir: true,
+    rollupOptions: {
+      input: Object.fromEntries(
+        testFiles.map((file) => [basename(file, ".ts"), file]),
+      ),
+      external: ["electron"],
+      output: {
+        format: "cjs",
+      },
+    },
+  },
+});